@@ -0,0 +1,216 @@
+import { parse } from "acorn"
+import type { AnyNode, Expression, Program } from "acorn"
+import { ancestor, simple } from "acorn-walk"
+
+export interface AstEndpointCandidate {
+  url: string
+  // True when the URL was rebuilt from concatenation or a template literal
+  composed: boolean
+  // Offset of the expression in the script, used to line it up with its call site
+  start: number
+  end: number
+  line: number
+  column: number
+}
+
+export interface ResolvedString {
+  value: string
+  composed: boolean
+  // False when every part of the value is a placeholder
+  hasStaticText: boolean
+}
+
+// Values assigned to names and object paths, `null` when assigned more than once
+export type ScriptConstants = Map<string, Expression | null>
+
+const MAX_RESOLVE_DEPTH = 8
+
+const ENDPOINT_CHARS = /^[\w\-./~%:@!$&'()*+,;=?#{}[\]]+$/
+
+/**
+ * Parse JavaScript into a syntax tree. Module syntax is tried first and
+ * classic script syntax second; a parse failure is thrown to the caller.
+ */
+export const parseScript = (code: string): Program => {
+  const options = {
+    ecmaVersion: 'latest' as const,
+    locations: true,
+    allowHashBang: true,
+    allowReturnOutsideFunction: true,
+    allowImportExportEverywhere: true,
+    allowAwaitOutsideFunction: true
+  }
+  try {
+    return parse(code, { ...options, sourceType: 'module' })
+  } catch {
+    return parse(code, { ...options, sourceType: 'script' })
+  }
+}
+
+/**
+ * Collect string values assigned to plain identifiers and object literal
+ * properties (`const API = '...'`, `config.base = '...'`). Names that are
+ * assigned more than once are treated as unknown.
+ */
+export const collectConstants = (program: Program): ScriptConstants => {
+  const constants: ScriptConstants = new Map()
+
+  const record = (name: string, value: Expression) => {
+    if (constants.has(name) && constants.get(name) !== value) {
+      constants.set(name, null)
+    } else {
+      constants.set(name, value)
+    }
+  }
+
+  const recordObject = (prefix: string, node: Expression) => {
+    if (node.type !== 'ObjectExpression') return
+    for (const prop of node.properties) {
+      if (prop.type !== 'Property' || prop.computed) continue
+      const key = prop.key.type === 'Identifier'
+        ? prop.key.name
+        : prop.key.type === 'Literal' ? String(prop.key.value) : null
+      if (key) record(`${prefix}.${key}`, prop.value)
+    }
+  }
+
+  simple(program, {
+    VariableDeclarator(node) {
+      if (node.id.type === 'Identifier' && node.init) {
+        record(node.id.name, node.init)
+        recordObject(node.id.name, node.init)
+      }
+    },
+    AssignmentExpression(node) {
+      if (node.operator !== '=') return
+      const name = memberPath(node.left as AnyNode)
+      if (name) record(name, node.right)
+    }
+  })
+
+  return constants
+}
+
+export const memberPath = (node: AnyNode): string | null => {
+  if (node.type === 'Identifier') return node.name
+  if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+    const object = memberPath(node.object as AnyNode)
+    return object ? `${object}.${node.property.name}` : null
+  }
+  return null
+}
+
+const placeholderName = (node: AnyNode): string => {
+  if (node.type === 'Identifier') return node.name
+  if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+    return node.property.name
+  }
+  if (node.type === 'CallExpression') return placeholderName(node.callee as AnyNode)
+  return 'param'
+}
+
+export const resolveString = (
+  node: AnyNode,
+  constants: ScriptConstants,
+  depth = 0
+): ResolvedString | null => {
+  if (depth > MAX_RESOLVE_DEPTH) return null
+
+  switch (node.type) {
+    case 'Literal':
+      return typeof node.value === 'string'
+        ? { value: node.value, composed: false, hasStaticText: node.value.length > 0 }
+        : null
+
+    case 'TemplateLiteral': {
+      let value = node.quasis[0].value.cooked ?? node.quasis[0].value.raw
+      let hasStaticText = value.length > 0
+      node.expressions.forEach((expression, i) => {
+        const part = resolveOrPlaceholder(expression as AnyNode, constants, depth + 1)
+        const quasi = node.quasis[i + 1].value.cooked ?? node.quasis[i + 1].value.raw
+        value += part.value + quasi
+        hasStaticText = hasStaticText || part.hasStaticText || quasi.length > 0
+      })
+      return { value, composed: node.expressions.length > 0, hasStaticText }
+    }
+
+    case 'BinaryExpression': {
+      if (node.operator !== '+') return null
+      const left = resolveOrPlaceholder(node.left as AnyNode, constants, depth + 1)
+      const right = resolveOrPlaceholder(node.right as AnyNode, constants, depth + 1)
+      if (!left.hasStaticText && !right.hasStaticText) return null
+      return { value: left.value + right.value, composed: true, hasStaticText: true }
+    }
+
+    case 'Identifier':
+    case 'MemberExpression': {
+      const path = memberPath(node)
+      const init = path ? constants.get(path) : null
+      return init ? resolveString(init as AnyNode, constants, depth + 1) : null
+    }
+
+    default:
+      return null
+  }
+}
+
+export const resolveOrPlaceholder = (
+  node: AnyNode,
+  constants: ScriptConstants,
+  depth = 0
+): ResolvedString => {
+  const resolved = resolveString(node, constants, depth)
+  if (resolved) return resolved
+  return { value: `{${placeholderName(node)}}`, composed: true, hasStaticText: false }
+}
+
+export const looksLikeEndpoint = (value: string, composed: boolean): boolean => {
+  if (value.length < 2 || value.length > 2048 || !ENDPOINT_CHARS.test(value)) return false
+  if (/^(https?|wss?):\/\/[^/{]/i.test(value)) return true
+  if (/^\/[\w.~{-]/.test(value)) return true
+  // An unresolved base followed by a path, e.g. `${API_BASE}/users`
+  return composed && /^\{[^}]+\}\/?[\w{]/.test(value) && value.includes('/')
+}
+
+/**
+ * Walk a script's syntax tree and return every string expression that
+ * looks like an endpoint. Concatenations and template literals are
+ * rebuilt using the file's constant assignments, and any part that cannot
+ * be resolved becomes a `{name}` placeholder.
+ */
+export const findAstEndpointCandidates = (program: Program): AstEndpointCandidate[] => {
+  const constants = collectConstants(program)
+  const candidates: AstEndpointCandidate[] = []
+
+  const visit = (node: AnyNode, ancestors: AnyNode[]) => {
+    const parent = ancestors[ancestors.length - 2]
+    // Parts of a larger concatenation are reported by the outermost expression
+    if (parent?.type === 'BinaryExpression' && parent.operator === '+') return
+    if (parent?.type === 'TemplateLiteral') return
+    if (parent?.type === 'ImportDeclaration' || parent?.type === 'ExportNamedDeclaration' ||
+        parent?.type === 'ExportAllDeclaration') return
+
+    const resolved = resolveString(node, constants)
+    if (!resolved || !resolved.hasStaticText) return
+
+    const url = resolved.value.trim()
+    if (!looksLikeEndpoint(url, resolved.composed)) return
+
+    candidates.push({
+      url,
+      composed: resolved.composed,
+      start: node.start,
+      end: node.end,
+      line: node.loc?.start.line ?? 0,
+      column: node.loc?.start.column ?? 0
+    })
+  }
+
+  ancestor(program, {
+    Literal: (node, _state, ancestors) => visit(node, ancestors),
+    TemplateLiteral: (node, _state, ancestors) => visit(node, ancestors),
+    BinaryExpression: (node, _state, ancestors) => visit(node, ancestors)
+  })
+
+  return candidates
+}
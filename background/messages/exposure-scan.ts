@@ -0,0 +1,43 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+
+import {
+  EXPOSURE_SCAN_PROGRESS_ACTION,
+  runExposureScan,
+  type ExposureScanProgress
+} from "~exposures"
+import { scheduler } from "~sharedScheduler"
+
+const STATS_INTERVAL = 1000
+
+// The popup may be closed; progress is only a courtesy
+const broadcast = (current: number, total: number) => {
+  const progress: ExposureScanProgress = { current, total, stats: scheduler.getStats() }
+  chrome.runtime.sendMessage({ action: EXPOSURE_SCAN_PROGRESS_ACTION, progress }).catch(() => {})
+}
+
+const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
+  const { baseUrl, checks } = req.body || {}
+
+  if (!baseUrl || !Array.isArray(checks) || checks.length === 0) {
+    res.send({ error: 'baseUrl and checks are required' })
+    return
+  }
+
+  let current = 0
+  // Keep throughput and back-off visible while throttled checks wait
+  const statsTimer = setInterval(() => broadcast(current, checks.length), STATS_INTERVAL)
+  try {
+    res.send(await runExposureScan(baseUrl, checks, scheduler.fetch, (completed, total) => {
+      current = completed
+      broadcast(completed, total)
+    }))
+  } catch (error) {
+    res.send({
+      error: error instanceof Error ? error.message : 'Exposure scan failed'
+    })
+  } finally {
+    clearInterval(statsTimer)
+  }
+}
+
+export default handler
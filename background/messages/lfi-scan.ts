@@ -0,0 +1,54 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+
+import {
+  cancelLfiJob,
+  getLfiJob,
+  listLfiJobs,
+  pauseLfiJob,
+  resumeLfiJob,
+  startLfiJob,
+  summarizeLfiJob,
+  toLfiJobProgress
+} from "~lfiJobs"
+
+const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
+  const { action, id, request } = req.body || {}
+
+  try {
+    switch (action) {
+      case 'start':
+        if (!request?.targetUrl || !request.parameters?.length || !request.payloads?.length) {
+          res.send({ error: 'targetUrl, parameters and payloads are required' })
+          return
+        }
+        res.send(toLfiJobProgress(await startLfiJob(request)))
+        return
+      case 'pause':
+        res.send(toLfiJobProgress(await pauseLfiJob(id)))
+        return
+      case 'resume':
+        res.send(toLfiJobProgress(await resumeLfiJob(id)))
+        return
+      case 'cancel':
+        res.send(toLfiJobProgress(await cancelLfiJob(id)))
+        return
+      case 'get': {
+        const job = await getLfiJob(id)
+        if (!job) {
+          res.send({ error: 'LFI job not found' })
+          return
+        }
+        res.send({ progress: toLfiJobProgress(job), summary: summarizeLfiJob(job) })
+        return
+      }
+      default:
+        res.send(await listLfiJobs())
+    }
+  } catch (error) {
+    res.send({
+      error: error instanceof Error ? error.message : 'LFI scan failed'
+    })
+  }
+}
+
+export default handler
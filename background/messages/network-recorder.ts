@@ -0,0 +1,38 @@
+import type { PlasmoMessaging } from "@plasmohq/messaging"
+
+import {
+  clearNetworkRecording,
+  getNetworkRecorderState,
+  startNetworkRecording,
+  stopNetworkRecording
+} from "~networkRecorder"
+
+const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
+  const { action, tabId } = req.body || {}
+
+  try {
+    switch (action) {
+      case 'start':
+        if (typeof tabId !== 'number') {
+          res.send({ error: 'tabId is required' })
+          return
+        }
+        res.send(await startNetworkRecording(tabId))
+        return
+      case 'stop':
+        res.send(await stopNetworkRecording())
+        return
+      case 'clear':
+        res.send(await clearNetworkRecording())
+        return
+      default:
+        res.send(await getNetworkRecorderState())
+    }
+  } catch (error) {
+    res.send({
+      error: error instanceof Error ? error.message : 'Network recorder failed'
+    })
+  }
+}
+
+export default handler
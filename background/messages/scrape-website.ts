@@ -1,223 +1,688 @@
 import type { PlasmoMessaging } from "@plasmohq/messaging"
 
+import { discoverChunks, discoverHtmlChunkHints } from "~chunkDiscovery"
+import { applyEndpointClasses, categorizeUrl, loadEndpointClasses } from "~endpointClassifier"
+import { runExtraction } from "~extractionHost"
+import { formToEndpoint, parseHtmlForms } from "~forms"
+import {
+  extractGraphqlOperations,
+  introspectSchema,
+  type GraphqlInventory,
+  type GraphqlOperation
+} from "~graphql"
+import { getNetworkRecorderState, networkEntriesToEndpoints } from "~networkRecorder"
+import { mergeOccurrences, occurrencesOf } from "~occurrences"
+import { discoverApiSpecs, type ApiSpecFinding, type RequestBodySchema } from "~openApi"
+import {
+  annotateOrigins,
+  buildHostInventory,
+  resolveOrigin,
+  type HostInventoryEntry,
+  type OriginRelation
+} from "~origins"
+import { loadExtractionRules, type ExtractionRule } from "~patternRegistry"
+import { buildParameterInventory, mergeParameters } from "~parameters"
+import type { RealtimeProtocol } from "~realtime"
+import { clusterRouteTemplates, type RouteTemplate } from "~routeTemplates"
+import {
+  isValidEndpoint,
+  normalizeUrl,
+  withQueryParameters,
+  type ExtractionJob,
+  type ExtractionResult
+} from "~scriptExtraction"
+import { detectSecrets, type SecretFinding } from "~secretDetection"
+import {
+  fetchSourceMap,
+  findSourceMapReference,
+  unpackSourceMap,
+  type SourceMapFinding
+} from "~sourceMaps"
+import { discoverWellKnownPaths } from "~wellKnownFiles"
+
 export interface EndpointInfo {
   url: string
   method?: string
-  type: 'api' | 'static' | 'page' | 'unknown'
+  // Primary class id: `api`, `graphql`, `realtime`, `page`, `static`, `auth`, ... or a user-defined class
+  type: string
+  // Channel protocol of `realtime` endpoints, e.g. `websocket`, `sse`, `socket.io`
+  protocol?: RealtimeProtocol
+  source: string
+  line?: number
+  // Set when the URL was rebuilt from concatenated or templated pieces
+  composed?: boolean
+  // Pages the endpoint was found on (several when crawling)
+  foundOn?: string[]
+  // Free-form labels such as `disallowed` for robots.txt Disallow rules
+  tags?: string[]
+  // Every class the endpoint matches, starting with `type`
+  classes?: string[]
+  // Host the URL resolves to from the scanned page, and how it relates to the page's host
+  host?: string
+  party?: OriginRelation
+  parameters?: EndpointParameter[]
+  // Route pattern with variable segments collapsed, e.g. `/api/products/{id}`
+  template?: string
+  // Observed in live traffic by the network recorder
+  status?: number
+  // Request Content-Type, observed or inferred from the call site
+  contentType?: string
+  initiator?: string
+  // Encoding of form submissions, e.g. `multipart/form-data`
+  enctype?: string
+  // Request body described by an API spec
+  requestBody?: RequestBodySchema
+  // Every place the endpoint is referenced, kept through deduplication
+  occurrences?: EndpointOccurrence[]
+}
+
+export interface EndpointOccurrence {
   source: string
   line?: number
+  column?: number
+  // Surrounding lines of code; long (minified) lines are cut around the match
+  snippet?: string[]
+  // Index of the matched line in `snippet` and the match's [start, end) within it
+  snippetLine?: number
+  highlight?: [number, number]
+}
+
+export type ParameterLocation = 'query' | 'path' | 'body' | 'header' | 'cookie'
+
+export interface EndpointParameter {
+  name: string
+  location: ParameterLocation
+  example?: string
+  // HTML input type for form fields (`hidden`, `password`, ...)
+  inputType?: string
+}
+
+// Every value and source seen for one parameter of one endpoint
+export interface ParameterInventoryEntry {
+  endpoint: string
+  name: string
+  location: ParameterLocation
+  examples: string[]
+  sources: string[]
 }
 
+// 'regex' scans raw text; 'ast' parses scripts and resolves built-up URLs
+export type ExtractionMode = 'regex' | 'ast'
+
 export interface ScrapeResult {
   endpoints: EndpointInfo[]
   totalCount: number
   domain: string
+  // Publicly reachable source maps, reported as findings in their own right
+  sourceMaps: SourceMapFinding[]
+  pagesScanned: string[]
+  parameters: ParameterInventoryEntry[]
+  routeTemplates: RouteTemplate[]
+  // Credentials and keys leaked in the scanned HTML and JavaScript
+  secrets: SecretFinding[]
+  graphql: GraphqlInventory
+  // OpenAPI/Swagger descriptions found by probing
+  apiSpecs: ApiSpecFinding[]
+  // Every host seen, grouped by registrable domain
+  hosts: HostInventoryEntry[]
+  // Files that were found but not scanned, with the reason
+  skippedFiles: SkippedFile[]
+}
+
+export interface SkippedFile {
+  url: string
+  reason: string
+}
+
+export interface CrawlOptions {
+  enabled: boolean
+  maxDepth: number
+  maxPages: number
+  // Path patterns where `*` is a wildcard, e.g. `/admin/*`
+  includePatterns: string[]
+  excludePatterns: string[]
+}
+
+export interface ScrapeOptions {
+  extractionMode: ExtractionMode
+  crawl?: CrawlOptions
+  // Read robots.txt, sitemaps, security.txt and /.well-known/ documents
+  wellKnownFiles: boolean
+  // Merge requests captured by the network recorder for this domain
+  networkCapture: boolean
+  // Send an introspection query to every GraphQL endpoint found
+  graphqlIntrospection: boolean
+  // Probe the usual OpenAPI/Swagger spec and Swagger UI locations
+  apiSpecs: boolean
 }
 
-const extractEndpointsFromText = (text: string, source: string): EndpointInfo[] => {
+export const DEFAULT_CRAWL_OPTIONS: CrawlOptions = {
+  enabled: false,
+  maxDepth: 2,
+  maxPages: 20,
+  includePatterns: [],
+  excludePatterns: ['/logout*', '/signout*']
+}
+
+/**
+ * Follow a script's source map and extract endpoints from every original
+ * file embedded in `sourcesContent`, so sources and line numbers refer to
+ * the unminified code.
+ */
+const scanSourceMap = async (
+  scriptUrl: string,
+  scriptContent: string,
+  headers: Headers,
+  context: ScanContext
+): Promise<{ finding: SourceMapFinding | null, endpoints: EndpointInfo[] }> => {
+  const reference = findSourceMapReference(scriptUrl, scriptContent, headers)
+  if (!reference) return { finding: null, endpoints: [] }
+
+  try {
+    const map = await fetchSourceMap(reference.mapUrl)
+    if (!map) return { finding: null, endpoints: [] }
+
+    const { sources, sourceCount, sourcesWithContent } = unpackSourceMap(map)
+    const endpoints: EndpointInfo[] = []
+    for (const original of sources) {
+      endpoints.push(...await extractInWorker(context, {
+        text: original.content,
+        source: `Original: ${original.path}`,
+        kind: 'script',
+        textFindings: true
+      }, `${reference.mapUrl} (${original.path})`))
+    }
+
+    return {
+      finding: {
+        scriptUrl,
+        mapUrl: reference.mapUrl.startsWith('data:') ? 'inline (data URI)' : reference.mapUrl,
+        discoveredVia: reference.discoveredVia,
+        sourceCount,
+        sourcesWithContent
+      },
+      endpoints
+    }
+  } catch (error) {
+    console.warn(`Failed to fetch source map: ${reference.mapUrl}`, error)
+    return { finding: null, endpoints: [] }
+  }
+}
+
+interface PageScan {
+  endpoints: EndpointInfo[]
+  sourceMaps: SourceMapFinding[]
+  // Same-origin links worth following in crawl mode
+  links: string[]
+}
+
+// State shared by every page of one scan so scripts and chunks are fetched once
+interface ScanContext {
+  mode: ExtractionMode
+  rules: ExtractionRule[]
+  scannedScripts: Set<string>
+  chunkCount: number
+  secrets: SecretFinding[]
+  graphqlOperations: GraphqlOperation[]
+  skippedFiles: SkippedFile[]
+}
+
+const skipFile = (context: ScanContext, url: string, reason: string) => {
+  if (!context.skippedFiles.some(skipped => skipped.url === url)) context.skippedFiles.push({ url, reason })
+}
+
+// Findings that come from the text itself rather than the endpoints in it
+const addTextFindings = (
+  context: ScanContext,
+  { secrets, graphqlOperations }: Pick<ExtractionResult, 'secrets' | 'graphqlOperations'>
+) => {
+  for (const operation of graphqlOperations) {
+    const duplicate = context.graphqlOperations.some(existing =>
+      existing.kind === operation.kind && existing.name === operation.name
+    )
+    if (!duplicate) context.graphqlOperations.push(operation)
+  }
+
+  for (const finding of secrets) {
+    const duplicate = context.secrets.some(existing =>
+      existing.rule === finding.rule &&
+      existing.maskedValue === finding.maskedValue &&
+      existing.source === finding.source &&
+      existing.line === finding.line
+    )
+    if (!duplicate) context.secrets.push(finding)
+  }
+}
+
+// Extract in the worker; a text it fails on is listed as skipped instead of failing the scan
+const extractInWorker = async (
+  context: ScanContext,
+  job: Omit<ExtractionJob, 'mode' | 'rules'>,
+  fileUrl: string
+): Promise<EndpointInfo[]> => {
+  try {
+    const result = await runExtraction({ ...job, mode: context.mode, rules: context.rules })
+    addTextFindings(context, result)
+    return result.endpoints
+  } catch (error) {
+    skipFile(context, fileUrl, `Extraction failed: ${error instanceof Error ? error.message : 'unknown error'}`)
+    return []
+  }
+}
+
+// Entry scripts per page, and lazily loaded chunks per scan
+const MAX_ENTRY_SCRIPTS = 25
+const MAX_CHUNKS = 300
+// Kept well under the extension messaging limit; anything bigger is not a script worth reading
+const MAX_SCRIPT_SIZE = 20 * 1024 * 1024
+
+interface ScriptScan {
+  endpoints: EndpointInfo[]
+  sourceMap: SourceMapFinding | null
+  chunkUrls: string[]
+}
+
+const scanScript = async (
+  scriptUrl: string,
+  context: ScanContext,
+  isChunk: boolean
+): Promise<ScriptScan> => {
   const endpoints: EndpointInfo[] = []
+  const scriptResponse = await fetch(scriptUrl, {
+    method: 'GET',
+    mode: 'cors',
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Accept': 'application/javascript, text/javascript, */*'
+    }
+  })
+  if (!scriptResponse.ok) {
+    skipFile(context, scriptUrl, `HTTP ${scriptResponse.status}`)
+    return { endpoints, sourceMap: null, chunkUrls: [] }
+  }
+
+  const scriptContent = await scriptResponse.text()
+  const tag = (found: EndpointInfo[]) =>
+    isChunk ? found.map(endpoint => ({ ...endpoint, tags: [...(endpoint.tags || []), 'chunk'] })) : found
+
+  // Original sources are scanned even when the minified file itself is skipped below
+  const mapped = await scanSourceMap(scriptUrl, scriptContent, scriptResponse.headers, context)
+  endpoints.push(...tag(mapped.endpoints))
+
+  // Chunk maps live in the runtime, which is usually large and minified, so look before skipping
+  const chunks = discoverChunks(scriptUrl, scriptContent)
+  for (const route of chunks.routes.filter(isValidEndpoint)) {
+    endpoints.push({
+      url: route,
+      type: 'page',
+      source: `Chunk manifest: ${scriptUrl}`,
+      tags: ['chunk'],
+      ...(route.includes('{') ? { composed: true } : {})
+    })
+  }
+
+  if (scriptContent.length > MAX_SCRIPT_SIZE) {
+    skipFile(context, scriptUrl, `Larger than ${MAX_SCRIPT_SIZE / 1024 / 1024} MB`)
+    return { endpoints, sourceMap: mapped.finding, chunkUrls: chunks.chunkUrls }
+  }
+
+  endpoints.push(...tag(await extractInWorker(context, {
+    text: scriptContent,
+    source: isChunk ? `Chunk: ${scriptUrl}` : `JS: ${scriptUrl}`,
+    kind: 'script',
+    textFindings: true
+  }, scriptUrl)))
+  return { endpoints, sourceMap: mapped.finding, chunkUrls: chunks.chunkUrls }
+}
+
+const scrapePage = async (url: string, context: ScanContext): Promise<PageScan> => {
+  const endpoints: EndpointInfo[] = []
+  const sourceMaps: SourceMapFinding[] = []
+
+  // Fetch the page with better error handling
+  const response = await fetch(url, {
+    method: 'GET',
+    mode: 'cors',
+    headers: {
+      'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+      'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+      'Accept-Language': 'en-US,en;q=0.5',
+      'Accept-Encoding': 'gzip, deflate',
+      'Connection': 'keep-alive'
+    }
+  })
   
-  // Common API endpoint patterns
-  const patterns = [
-    // REST API patterns
-    /["']\/api\/[^"']*["']/gi,
-    /["']\/v\d+\/[^"']*["']/gi,
-    /["']\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]+["']/gi,
-    
-    // Common endpoint patterns
-    /["']\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]*["']/gi,
-    /["']\/[a-zA-Z0-9_-]+\.json["']/gi,
-    /["']\/[a-zA-Z0-9_-]+\.xml["']/gi,
-    
-    // URL patterns
-    /https?:\/\/[^\s"']+/gi,
-    /["']https?:\/\/[^"']*["']/gi,
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+  
+  const html = await response.text()
+  // Inline scripts are part of the page text, so this covers them too
+  addTextFindings(context, {
+    secrets: detectSecrets(html, `HTML: ${url}`),
+    graphqlOperations: extractGraphqlOperations(html, `HTML: ${url}`)
+  })
+  
+  // Extract endpoints from HTML content
+  const htmlEndpoints = await extractInWorker(context, { text: html, source: 'HTML', kind: 'html', textFindings: false }, url)
+  endpoints.push(...htmlEndpoints)
+  endpoints.push(...parseHtmlForms(html, url).map(form => formToEndpoint(form, 'HTML Form')))
+  
+  // Find JavaScript files with better filtering, plus scripts announced by preload hints and manifests
+  const scriptMatches = html.match(/<script[^>]*src=["']([^"']+)["'][^>]*>/gi) || []
+  const entryScripts: string[] = []
+  for (const scriptMatch of scriptMatches) {
+    const srcMatch = scriptMatch.match(/src=["']([^"']+)["']/)
+    if (!srcMatch) continue
+    let scriptUrl = srcMatch[1]
     
-    // Fetch/axios patterns
-    /fetch\s*\(\s*["']([^"']+)["']/gi,
-    /axios\.[a-z]+\s*\(\s*["']([^"']+)["']/gi,
-    /\.get\s*\(\s*["']([^"']+)["']/gi,
-    /\.post\s*\(\s*["']([^"']+)["']/gi,
-    /\.put\s*\(\s*["']([^"']+)["']/gi,
-    /\.delete\s*\(\s*["']([^"']+)["']/gi,
+    // Skip external CDNs; minified bundles are kept so their source maps can be followed
+    if (scriptUrl.includes('cdn')) {
+      let skippedUrl = scriptUrl
+      try {
+        skippedUrl = new URL(scriptUrl, url).href
+      } catch {
+        // Recorded as written when the src is not a valid URL
+      }
+      skipFile(context, skippedUrl, 'External CDN script')
+      continue
+    }
     
-    // jQuery patterns
-    /\$\.(get|post|ajax)\s*\(\s*["']([^"']+)["']/gi,
+    // Convert relative URLs to absolute
+    if (scriptUrl.startsWith('/')) {
+      scriptUrl = `${new URL(url).origin}${scriptUrl}`
+    } else if (!scriptUrl.startsWith('http')) {
+      scriptUrl = new URL(scriptUrl, url).href
+    }
+    entryScripts.push(scriptUrl)
+  }
+  entryScripts.push(...discoverHtmlChunkHints(html, url))
+
+  // Limit the number of entry scripts to prevent overwhelming requests; chunks have their own cap
+  const uniqueScripts = Array.from(new Set(entryScripts))
+  for (const scriptUrl of uniqueScripts.slice(MAX_ENTRY_SCRIPTS)) {
+    if (!context.scannedScripts.has(scriptUrl)) skipFile(context, scriptUrl, `More than ${MAX_ENTRY_SCRIPTS} scripts on the page`)
+  }
+  const queue = uniqueScripts
+    .slice(0, MAX_ENTRY_SCRIPTS)
+    .map(scriptUrl => ({ scriptUrl, isChunk: false }))
+
+  while (queue.length > 0) {
+    const { scriptUrl, isChunk } = queue.shift()
+    if (context.scannedScripts.has(scriptUrl)) continue
+    context.scannedScripts.add(scriptUrl)
+    // Over the cap on an earlier page, but reached on this one
+    context.skippedFiles = context.skippedFiles.filter(skipped => skipped.url !== scriptUrl)
     
-    // XMLHttpRequest patterns
-    /open\s*\(\s*["'](GET|POST|PUT|DELETE)["']\s*,\s*["']([^"']+)["']/gi,
-  ]
+    try {
+      const scan = await scanScript(scriptUrl, context, isChunk)
+      endpoints.push(...scan.endpoints)
+      if (scan.sourceMap) sourceMaps.push(scan.sourceMap)
 
-  patterns.forEach(pattern => {
-    let match
-    while ((match = pattern.exec(text)) !== null) {
-      let url = match[1] || match[0]
-      
-      // Clean up the URL
-      url = url.replace(/["']/g, '').trim()
-      
-      if (url && isValidEndpoint(url)) {
-        const endpoint: EndpointInfo = {
-          url: normalizeUrl(url),
-          type: categorizeEndpoint(url),
-          source: source,
-          line: getLineNumber(text, match.index)
+      for (const chunkUrl of scan.chunkUrls) {
+        if (context.scannedScripts.has(chunkUrl)) continue
+        if (context.chunkCount >= MAX_CHUNKS) {
+          skipFile(context, chunkUrl, `Chunk limit (${MAX_CHUNKS}) reached`)
+          continue
         }
-        
-        // Extract HTTP method if available
-        if (match[0].includes('GET')) endpoint.method = 'GET'
-        else if (match[0].includes('POST')) endpoint.method = 'POST'
-        else if (match[0].includes('PUT')) endpoint.method = 'PUT'
-        else if (match[0].includes('DELETE')) endpoint.method = 'DELETE'
-        
-        endpoints.push(endpoint)
+        context.chunkCount += 1
+        queue.push({ scriptUrl: chunkUrl, isChunk: true })
       }
+    } catch (error) {
+      console.warn(`Failed to fetch script: ${scriptUrl}`, error)
+      // Continue with other scripts instead of failing completely
+      skipFile(context, scriptUrl, `Fetch failed: ${error instanceof Error ? error.message : 'unknown error'}`)
     }
-  })
+  }
+  
+  // Also extract from inline scripts in HTML
+  const inlineScripts = html.match(/<script[^>]*>([\s\S]*?)<\/script>/gi) || []
+  for (const inlineScript of inlineScripts) {
+    const scriptContent = inlineScript.replace(/<script[^>]*>|<\/script>/gi, '')
+    if (scriptContent.trim()) {
+      const inlineEndpoints = await extractInWorker(context, {
+        text: scriptContent,
+        source: 'Inline Script',
+        kind: 'script',
+        textFindings: false
+      }, `${url} (inline script)`)
+      endpoints.push(...inlineEndpoints)
+    }
+  }
+
+  endpoints.forEach(endpoint => { endpoint.foundOn = [url] })
 
-  return endpoints
+  const isHtml = (response.headers.get('Content-Type') || 'text/html').includes('html')
+  return { endpoints, sourceMaps, links: isHtml ? extractCrawlLinks(html, endpoints, url) : [] }
 }
 
-const isValidEndpoint = (url: string): boolean => {
-  // Filter out common non-endpoint patterns
-  const excludePatterns = [
-    /^#/,
-    /^javascript:/,
-    /^mailto:/,
-    /^tel:/,
-    /\.(css|js|png|jpg|jpeg|gif|svg|ico|woff|woff2|ttf|eot)$/i,
-    /^\/$/, // Just root path
-    /^\/\s*$/, // Root with whitespace
+/**
+ * Collect same-origin `<a href>` targets and `page`-type endpoints from a
+ * scanned page, resolved to absolute URLs without fragments.
+ */
+const extractCrawlLinks = (html: string, endpoints: EndpointInfo[], pageUrl: string): string[] => {
+  const origin = new URL(pageUrl).origin
+  const candidates = [
+    ...Array.from(html.matchAll(/<a\b[^>]*?\bhref\s*=\s*["']([^"']+)["']/gi), match => match[1]),
+    ...endpoints.filter(endpoint => endpoint.type === 'page').map(endpoint => endpoint.url)
   ]
-  
-  return !excludePatterns.some(pattern => pattern.test(url))
+
+  const links = new Set<string>()
+  for (const candidate of candidates) {
+    if (!isValidEndpoint(candidate) || candidate.includes('{')) continue
+    try {
+      const resolved = new URL(candidate.replace(/&amp;/g, '&'), pageUrl)
+      resolved.hash = ''
+      if (resolved.origin === origin) links.add(resolved.href)
+    } catch {
+      // Not a URL we can follow
+    }
+  }
+  return Array.from(links)
 }
 
-const normalizeUrl = (url: string): string => {
-  // Remove query parameters and fragments for cleaner display
-  return url.split('?')[0].split('#')[0]
+// `*` matches any run of characters; everything else is literal
+const pathPatternToRegExp = (pattern: string): RegExp => {
+  const escaped = pattern.trim().replace(/[.+?^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*')
+  return new RegExp(`^${escaped}$`, 'i')
 }
 
-const categorizeEndpoint = (url: string): EndpointInfo['type'] => {
-  if (url.includes('/api/') || url.includes('/v1/') || url.includes('/v2/')) {
-    return 'api'
-  }
-  if (url.match(/\.(html|htm|php|asp|aspx)$/i)) {
-    return 'page'
-  }
-  if (url.match(/\.(js|css|png|jpg|jpeg|gif|svg|ico|woff|woff2|ttf|eot)$/i)) {
-    return 'static'
+const isInCrawlScope = (url: string, crawl: CrawlOptions): boolean => {
+  const path = new URL(url).pathname
+  const include = crawl.includePatterns.filter(p => p.trim()).map(pathPatternToRegExp)
+  const exclude = crawl.excludePatterns.filter(p => p.trim()).map(pathPatternToRegExp)
+  if (include.length > 0 && !include.some(pattern => pattern.test(path))) return false
+  return !exclude.some(pattern => pattern.test(path))
+}
+
+// Same URL with different known methods stays separate; a missing method matches any
+const mergeEndpoints = (endpoints: EndpointInfo[]): EndpointInfo[] => {
+  const byUrl = new Map<string, EndpointInfo[]>()
+  const merged: EndpointInfo[] = []
+  for (const endpoint of endpoints) {
+    const candidates = byUrl.get(endpoint.url) || []
+    const existing = candidates.find(e => !e.method || !endpoint.method || e.method === endpoint.method)
+    if (!existing) {
+      const copy = {
+        ...endpoint,
+        foundOn: [...(endpoint.foundOn || [])],
+        occurrences: occurrencesOf(endpoint),
+        ...(endpoint.parameters ? { parameters: mergeParameters([], endpoint.parameters) } : {})
+      }
+      byUrl.set(endpoint.url, [...candidates, copy])
+      merged.push(copy)
+      continue
+    }
+    existing.method = existing.method ?? endpoint.method
+    // A realtime setup call says more about the URL than the pattern that also matched it
+    if (existing.type === 'unknown' || (endpoint.protocol && !existing.protocol)) existing.type = endpoint.type
+    existing.protocol = existing.protocol ?? endpoint.protocol
+    existing.occurrences = mergeOccurrences(existing.occurrences, occurrencesOf(endpoint))
+    for (const page of endpoint.foundOn || []) {
+      if (!existing.foundOn.includes(page)) existing.foundOn.push(page)
+    }
+    for (const tag of endpoint.tags || []) {
+      existing.tags = existing.tags || []
+      if (!existing.tags.includes(tag)) existing.tags.push(tag)
+    }
+    if (endpoint.parameters) {
+      existing.parameters = mergeParameters(existing.parameters, endpoint.parameters)
+    }
+    existing.status = existing.status ?? endpoint.status
+    existing.contentType = existing.contentType ?? endpoint.contentType
+    existing.initiator = existing.initiator ?? endpoint.initiator
+    existing.enctype = existing.enctype ?? endpoint.enctype
+    existing.requestBody = existing.requestBody ?? endpoint.requestBody
   }
-  return 'unknown'
+  return merged
 }
 
-const getLineNumber = (text: string, index: number): number => {
-  return text.substring(0, index).split('\n').length
+const MAX_INTROSPECTED_ENDPOINTS = 5
+
+const buildGraphqlInventory = async (
+  endpoints: EndpointInfo[],
+  operations: GraphqlOperation[],
+  pageUrl: string,
+  options: ScrapeOptions
+): Promise<GraphqlInventory> => {
+  const graphqlEndpoints = Array.from(new Set(
+    endpoints
+      .filter(endpoint => endpoint.type === 'graphql')
+      .map(endpoint => {
+        try {
+          return new URL(endpoint.url, pageUrl).href
+        } catch {
+          return null
+        }
+      })
+      .filter(Boolean)
+  ))
+  const inventory: GraphqlInventory = { endpoints: graphqlEndpoints, operations, schemas: [], introspectionErrors: [] }
+  if (!options.graphqlIntrospection) return inventory
+
+  // Bundles with operations but no visible endpoint usually talk to the conventional path
+  const targets = graphqlEndpoints.length > 0 || operations.length === 0
+    ? graphqlEndpoints
+    : [new URL('/graphql', pageUrl).href]
+
+  for (const endpoint of targets.slice(0, MAX_INTROSPECTED_ENDPOINTS)) {
+    try {
+      inventory.schemas.push(await introspectSchema(endpoint))
+    } catch (error) {
+      inventory.introspectionErrors.push({
+        endpoint,
+        error: error instanceof Error ? error.message : 'Introspection failed'
+      })
+    }
+  }
+  return inventory
 }
 
-const scrapeWebsite = async (url: string): Promise<ScrapeResult> => {
+const scrapeWebsite = async (url: string, options: ScrapeOptions): Promise<ScrapeResult> => {
   const endpoints: EndpointInfo[] = []
+  const sourceMaps: SourceMapFinding[] = []
+  const pagesScanned: string[] = []
   const domain = new URL(url).hostname
+  const crawl = options.crawl?.enabled ? options.crawl : null
+  const context: ScanContext = {
+    mode: options.extractionMode,
+    rules: await loadExtractionRules(),
+    scannedScripts: new Set(),
+    chunkCount: 0,
+    secrets: [],
+    graphqlOperations: [],
+    skippedFiles: []
+  }
   
   try {
-    // Fetch the main page with better error handling
-    const response = await fetch(url, {
-      method: 'GET',
-      mode: 'cors',
-      headers: {
-        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-        'Accept-Language': 'en-US,en;q=0.5',
-        'Accept-Encoding': 'gzip, deflate',
-        'Connection': 'keep-alive'
+    // Breadth-first over same-origin pages; without crawl mode only the entry page is queued
+    const queue: { url: string, depth: number }[] = [{ url, depth: 0 }]
+    const seen = new Set<string>([url])
+
+    while (queue.length > 0 && pagesScanned.length < (crawl ? crawl.maxPages : 1)) {
+      const page = queue.shift()
+      let scan: PageScan
+      try {
+        scan = await scrapePage(page.url, context)
+      } catch (error) {
+        // The entry page must load; pages found while crawling may fail individually
+        if (page.depth === 0) throw error
+        console.warn(`Failed to crawl page: ${page.url}`, error)
+        continue
       }
-    })
-    
-    if (!response.ok) {
-      throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-    }
-    
-    const html = await response.text()
-    
-    // Extract endpoints from HTML content
-    const htmlEndpoints = extractEndpointsFromText(html, 'HTML')
-    endpoints.push(...htmlEndpoints)
-    
-    // Find and scrape JavaScript files with better filtering
-    const scriptMatches = html.match(/<script[^>]*src=["']([^"']+)["'][^>]*>/gi) || []
-    
-    // Limit the number of scripts to prevent overwhelming requests
-    const maxScripts = 10
-    const scriptsToProcess = scriptMatches.slice(0, maxScripts)
-    
-    for (const scriptMatch of scriptsToProcess) {
-      const srcMatch = scriptMatch.match(/src=["']([^"']+)["']/)
-      if (srcMatch) {
-        let scriptUrl = srcMatch[1]
-        
-        // Skip external CDNs and minified files that might cause issues
-        if (scriptUrl.includes('cdn') || scriptUrl.includes('min.js') || 
-            scriptUrl.includes('bundle') || scriptUrl.includes('vendor')) {
-          continue
-        }
-        
-        // Convert relative URLs to absolute
-        if (scriptUrl.startsWith('/')) {
-          scriptUrl = `${new URL(url).origin}${scriptUrl}`
-        } else if (!scriptUrl.startsWith('http')) {
-          scriptUrl = new URL(scriptUrl, url).href
-        }
-        
-        try {
-          const scriptResponse = await fetch(scriptUrl, {
-            method: 'GET',
-            mode: 'cors',
-            headers: {
-              'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
-              'Accept': 'application/javascript, text/javascript, */*'
-            }
-          })
-          
-          if (scriptResponse.ok) {
-            const scriptContent = await scriptResponse.text()
-            
-            // Skip scripts that contain WebSocket or other problematic code
-            if (scriptContent.includes('WebSocket') || 
-                scriptContent.includes('eval(') || 
-                scriptContent.includes('Function(') ||
-                scriptContent.length > 100000) { // Skip very large files
-              continue
-            }
-            
-            const scriptEndpoints = extractEndpointsFromText(scriptContent, `JS: ${scriptUrl}`)
-            endpoints.push(...scriptEndpoints)
-          }
-        } catch (error) {
-          console.warn(`Failed to fetch script: ${scriptUrl}`, error)
-          // Continue with other scripts instead of failing completely
-        }
+
+      pagesScanned.push(page.url)
+      endpoints.push(...scan.endpoints)
+      sourceMaps.push(...scan.sourceMaps.filter(map => !sourceMaps.some(m => m.mapUrl === map.mapUrl)))
+
+      if (!crawl || page.depth >= crawl.maxDepth) continue
+      for (const link of scan.links) {
+        if (seen.has(link) || !isInCrawlScope(link, crawl)) continue
+        seen.add(link)
+        queue.push({ url: link, depth: page.depth + 1 })
       }
     }
-    
-    // Also extract from inline scripts in HTML
-    const inlineScripts = html.match(/<script[^>]*>([\s\S]*?)<\/script>/gi) || []
-    for (const inlineScript of inlineScripts) {
-      const scriptContent = inlineScript.replace(/<script[^>]*>|<\/script>/gi, '')
-      if (scriptContent.trim() && !scriptContent.includes('WebSocket')) {
-        const inlineEndpoints = extractEndpointsFromText(scriptContent, 'Inline Script')
-        endpoints.push(...inlineEndpoints)
+
+    if (options.wellKnownFiles) {
+      const listed = await discoverWellKnownPaths(url)
+      for (const path of listed) {
+        if (!isValidEndpoint(path.url)) continue
+        endpoints.push(withQueryParameters({
+          url: normalizeUrl(path.url),
+          type: categorizeUrl(path.url),
+          source: path.source,
+          line: path.line,
+          foundOn: [path.foundAt],
+          ...(path.tags ? { tags: path.tags } : {})
+        }, path.url))
       }
     }
     
-    // Remove duplicates
-    const uniqueEndpoints = endpoints.filter((endpoint, index, self) => 
-      index === self.findIndex(e => e.url === endpoint.url)
+    const apiSpecs: ApiSpecFinding[] = []
+    if (options.apiSpecs) {
+      // Spec files the pages link to are probed along with the usual locations
+      const linked = endpoints
+        .filter(endpoint => /(swagger|openapi|api-docs)[^/]*\.(json|ya?ml)$/i.test(endpoint.url))
+        .map(endpoint => new URL(endpoint.url, url).href)
+      const discovered = await discoverApiSpecs(url, Array.from(new Set(linked)))
+      apiSpecs.push(...discovered.specs)
+      endpoints.push(...discovered.endpoints)
+    }
+
+    if (options.networkCapture) {
+      const { entries } = await getNetworkRecorderState()
+      // Calls to the site's other subdomains (api., cdn., ...) belong to it too;
+      // URLs that cannot be resolved as http(s) or ws(s) do not
+      const relationOf = (value: string | undefined) => value ? resolveOrigin(value, url)?.relation : undefined
+      const onDomain = entries.filter(entry => {
+        const relation = relationOf(entry.url)
+        if (!relation) return false
+        const initiator = relationOf(entry.initiator)
+        return relation !== 'third-party' || (!!initiator && initiator !== 'third-party')
+      })
+      endpoints.push(...networkEntriesToEndpoints(onDomain))
+    }
+
+    // Remove duplicates, remembering every page an endpoint appeared on
+    const classes = await loadEndpointClasses()
+    const { endpoints: uniqueEndpoints, templates } = clusterRouteTemplates(
+      applyEndpointClasses(annotateOrigins(mergeEndpoints(endpoints), url), classes)
     )
+    const graphql = await buildGraphqlInventory(uniqueEndpoints, context.graphqlOperations, url, options)
     
     return {
       endpoints: uniqueEndpoints,
       totalCount: uniqueEndpoints.length,
-      domain
+      domain,
+      sourceMaps,
+      pagesScanned,
+      parameters: buildParameterInventory(endpoints),
+      routeTemplates: templates,
+      secrets: context.secrets,
+      graphql,
+      apiSpecs,
+      hosts: buildHostInventory(uniqueEndpoints, url),
+      skippedFiles: context.skippedFiles
     }
     
   } catch (error) {
@@ -227,7 +692,15 @@ const scrapeWebsite = async (url: string): Promise<ScrapeResult> => {
 }
 
 const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
-  const { url } = req.body
+  const {
+    url,
+    extractionMode,
+    crawl,
+    wellKnownFiles,
+    networkCapture,
+    graphqlIntrospection,
+    apiSpecs
+  } = req.body
   
   if (!url) {
     res.send({ error: 'URL is required' })
@@ -238,7 +711,14 @@ const handler: PlasmoMessaging.MessageHandler = async (req, res) => {
     // Validate URL
     new URL(url)
     
-    const result = await scrapeWebsite(url)
+    const result = await scrapeWebsite(url, {
+      extractionMode: extractionMode === 'ast' ? 'ast' : 'regex',
+      crawl: crawl?.enabled ? { ...DEFAULT_CRAWL_OPTIONS, ...crawl } : undefined,
+      wellKnownFiles: wellKnownFiles !== false,
+      networkCapture: networkCapture !== false,
+      graphqlIntrospection: graphqlIntrospection === true,
+      apiSpecs: apiSpecs !== false
+    })
     res.send(result)
   } catch (error) {
     res.send({ 
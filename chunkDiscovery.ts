@@ -0,0 +1,272 @@
+import type { AnyNode, Expression, Program } from "acorn"
+import { simple } from "acorn-walk"
+
+import { parseScript } from "~astEndpoints"
+
+export type ChunkSourceKind = 'webpack' | 'vite' | 'dynamic-import' | 'next-build-manifest' | 'next-ssg-manifest'
+
+export interface ChunkDiscovery {
+  chunkUrls: string[]
+  // Client-side routes listed by framework manifests, e.g. `/product/{id}`
+  routes: string[]
+  kinds: ChunkSourceKind[]
+}
+
+type Value = string | boolean | undefined
+
+const objectLookup = (node: AnyNode, key: string): Expression | undefined => {
+  if (node.type !== 'ObjectExpression') return undefined
+  for (const prop of node.properties) {
+    if (prop.type !== 'Property' || prop.computed) continue
+    const name = prop.key.type === 'Identifier' ? prop.key.name : prop.key.type === 'Literal' ? String(prop.key.value) : null
+    if (name === key) return prop.value
+  }
+  return undefined
+}
+
+const objectKeys = (node: AnyNode): string[] => {
+  const keys: string[] = []
+  simple(node, {
+    ObjectExpression(object) {
+      for (const prop of object.properties) {
+        if (prop.type !== 'Property' || prop.computed) continue
+        if (prop.key.type === 'Literal') keys.push(String(prop.key.value))
+        else if (prop.key.type === 'Identifier') keys.push(prop.key.name)
+      }
+    }
+  })
+  return keys
+}
+
+/**
+ * Evaluate the small expressions webpack emits for `__webpack_require__.u`
+ * (string concatenation, `{id: hash}[id]` lookups, `||` and ternaries)
+ * for one chunk id. Anything else evaluates to undefined.
+ */
+const evaluate = (node: AnyNode, param: string, chunkId: string): Value => {
+  switch (node.type) {
+    case 'Literal':
+      return node.value === null || node.value === undefined ? undefined : String(node.value)
+    case 'Identifier':
+      return node.name === param ? chunkId : undefined
+    case 'TemplateLiteral': {
+      let out = node.quasis[0].value.cooked ?? ''
+      for (let i = 0; i < node.expressions.length; i++) {
+        const part = evaluate(node.expressions[i] as AnyNode, param, chunkId)
+        if (typeof part !== 'string') return undefined
+        out += part + (node.quasis[i + 1].value.cooked ?? '')
+      }
+      return out
+    }
+    case 'BinaryExpression': {
+      const left = evaluate(node.left as AnyNode, param, chunkId)
+      const right = evaluate(node.right as AnyNode, param, chunkId)
+      if (node.operator === '+') {
+        return typeof left === 'string' && typeof right === 'string' ? left + right : undefined
+      }
+      if (node.operator === '===' || node.operator === '==') return left !== undefined && left === right
+      if (node.operator === '!==' || node.operator === '!=') return left !== undefined && left !== right
+      return undefined
+    }
+    case 'LogicalExpression': {
+      const left = evaluate(node.left as AnyNode, param, chunkId)
+      if (node.operator === '||') return left || evaluate(node.right as AnyNode, param, chunkId)
+      if (node.operator === '&&') return left && evaluate(node.right as AnyNode, param, chunkId)
+      return left ?? evaluate(node.right as AnyNode, param, chunkId)
+    }
+    case 'ConditionalExpression': {
+      const test = evaluate(node.test as AnyNode, param, chunkId)
+      if (test === undefined) return undefined
+      return evaluate((test ? node.consequent : node.alternate) as AnyNode, param, chunkId)
+    }
+    case 'MemberExpression': {
+      if (!node.computed) return undefined
+      const key = evaluate(node.property as AnyNode, param, chunkId)
+      if (typeof key !== 'string') return undefined
+      const value = objectLookup(node.object as AnyNode, key)
+      return value ? evaluate(value as AnyNode, param, chunkId) : undefined
+    }
+    case 'SequenceExpression':
+      return evaluate(node.expressions[node.expressions.length - 1] as AnyNode, param, chunkId)
+    default:
+      return undefined
+  }
+}
+
+const returnedExpression = (fn: AnyNode): AnyNode | undefined => {
+  if (fn.type !== 'FunctionExpression' && fn.type !== 'ArrowFunctionExpression') return undefined
+  if (fn.body.type !== 'BlockStatement') return fn.body as AnyNode
+  const statement = fn.body.body.find(s => s.type === 'ReturnStatement')
+  return statement?.type === 'ReturnStatement' && statement.argument ? statement.argument as AnyNode : undefined
+}
+
+const assignedProperty = (node: AnyNode, name: string): boolean =>
+  node.type === 'MemberExpression' &&
+  !node.computed &&
+  node.property.type === 'Identifier' &&
+  node.property.name === name
+
+/**
+ * Rebuild webpack chunk file names from the runtime's chunk-filename
+ * function (`__webpack_require__.u`) and its public path (`.p`). Chunk ids
+ * come from the lookup tables inside the function and from `.e(id)` calls.
+ */
+const findWebpackChunks = (program: Program, scriptUrl: string): string[] => {
+  const chunkFunctions: { body: AnyNode, param: string }[] = []
+  const chunkIds = new Set<string>()
+  let publicPath: string | undefined
+
+  simple(program, {
+    AssignmentExpression(node) {
+      if (node.operator !== '=') return
+      const left = node.left as AnyNode
+      if (assignedProperty(left, 'u')) {
+        const fn = node.right as AnyNode
+        const body = returnedExpression(fn)
+        const param = (fn.type === 'FunctionExpression' || fn.type === 'ArrowFunctionExpression') &&
+          fn.params[0]?.type === 'Identifier' ? fn.params[0].name : undefined
+        if (body && param) {
+          chunkFunctions.push({ body, param })
+          objectKeys(body).forEach(id => chunkIds.add(id))
+        }
+      } else if (assignedProperty(left, 'p') && node.right.type === 'Literal' && typeof node.right.value === 'string') {
+        publicPath = node.right.value
+      }
+    },
+    CallExpression(node) {
+      const arg = node.arguments[0]
+      if (assignedProperty(node.callee as AnyNode, 'e') && node.arguments.length === 1 &&
+          arg.type === 'Literal' && (typeof arg.value === 'number' || typeof arg.value === 'string')) {
+        chunkIds.add(String(arg.value))
+      }
+    }
+  })
+
+  if (chunkFunctions.length === 0) return []
+
+  // `auto` (or no public path) means "next to the runtime script"
+  const base = publicPath && publicPath !== 'auto' ? new URL(publicPath, scriptUrl).href : scriptUrl
+  const urls = new Set<string>()
+  for (const { body, param } of chunkFunctions) {
+    for (const id of Array.from(chunkIds)) {
+      const file = evaluate(body, param, id)
+      if (typeof file === 'string' && /\.m?js(\?|$)/.test(file)) {
+        urls.add(new URL(file, base).href)
+      }
+    }
+  }
+  return Array.from(urls)
+}
+
+const findImportedChunks = (program: Program, scriptUrl: string): { dynamic: string[], vite: string[] } => {
+  const dynamic = new Set<string>()
+  const vite = new Set<string>()
+  const origin = new URL(scriptUrl).origin
+
+  simple(program, {
+    ImportExpression(node) {
+      if (node.source.type === 'Literal' && typeof node.source.value === 'string' && /\.m?js$/.test(node.source.value)) {
+        dynamic.add(new URL(node.source.value, scriptUrl).href)
+      }
+    },
+    // Vite's preload dependency lists (`__vite__mapDeps`) hold base-relative asset paths
+    ArrayExpression(node) {
+      for (const element of node.elements) {
+        if (element?.type === 'Literal' && typeof element.value === 'string' &&
+            /^(\.\/)?assets\/[^'"\s]+\.m?js$/.test(element.value)) {
+          vite.add(new URL(element.value.replace(/^\.\//, ''), `${origin}/`).href)
+        }
+      }
+    }
+  })
+
+  return { dynamic: Array.from(dynamic), vite: Array.from(vite) }
+}
+
+// Next.js dynamic segments (`[id]`, `[...slug]`) become placeholders
+const nextRouteToTemplate = (route: string): string =>
+  route.replace(/\[\[?(?:\.\.\.)?([^\]]+)\]\]?/g, '{$1}')
+
+const decodeJsString = (value: string): string =>
+  value.replace(/\\u([0-9a-fA-F]{4})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))).replace(/\\\//g, '/')
+
+const parseNextBuildManifest = (code: string, manifestUrl: string): ChunkDiscovery => {
+  // Assets are listed relative to the `_next/` directory two levels above the manifest
+  const nextRoot = new URL('../../', manifestUrl).href
+  const chunkUrls = Array.from(
+    new Set(Array.from(code.matchAll(/["'](static\/chunks\/[^"']+?\.js)["']/g), m => new URL(m[1], nextRoot).href))
+  )
+  const routes = Array.from(
+    new Set(
+      Array.from(code.matchAll(/["'](\/[^"']*)["']\s*:/g), m => decodeJsString(m[1]))
+        .filter(route => !/^\/_(app|error|document)$/.test(route))
+        .map(nextRouteToTemplate)
+    )
+  )
+  return { chunkUrls, routes, kinds: ['next-build-manifest'] }
+}
+
+const parseNextSsgManifest = (code: string): ChunkDiscovery => {
+  const set = code.match(/new Set\(\[([\s\S]*?)\]\)/)
+  const routes = set
+    ? Array.from(set[1].matchAll(/["']([^"']+)["']/g), m => nextRouteToTemplate(decodeJsString(m[1])))
+    : []
+  return { chunkUrls: [], routes, kinds: ['next-ssg-manifest'] }
+}
+
+/**
+ * Find the lazily loaded chunks and client-side routes a script refers to:
+ * webpack chunk maps, Vite preload lists and dynamic `import()`s, and the
+ * Next.js build and SSG manifests.
+ */
+export const discoverChunks = (scriptUrl: string, code: string): ChunkDiscovery => {
+  const path = new URL(scriptUrl).pathname
+  if (/_buildManifest\.js$/.test(path)) return parseNextBuildManifest(code, scriptUrl)
+  if (/_ssgManifest\.js$/.test(path)) return parseNextSsgManifest(code)
+
+  let program: Program
+  try {
+    program = parseScript(code)
+  } catch {
+    return { chunkUrls: [], routes: [], kinds: [] }
+  }
+
+  const kinds: ChunkSourceKind[] = []
+  const webpack = findWebpackChunks(program, scriptUrl)
+  const { dynamic, vite } = findImportedChunks(program, scriptUrl)
+  if (webpack.length > 0) kinds.push('webpack')
+  if (vite.length > 0) kinds.push('vite')
+  if (dynamic.length > 0) kinds.push('dynamic-import')
+
+  return { chunkUrls: Array.from(new Set([...webpack, ...vite, ...dynamic])), routes: [], kinds }
+}
+
+/**
+ * Script URLs a page announces without a `<script src>`: module preload
+ * hints and, for Next.js, the build manifests derived from `__NEXT_DATA__`.
+ */
+export const discoverHtmlChunkHints = (html: string, pageUrl: string): string[] => {
+  const hints = new Set<string>()
+
+  for (const match of Array.from(html.matchAll(/<link\b[^>]*>/gi))) {
+    const tag = match[0]
+    const isScriptHint = /rel=["']?modulepreload/i.test(tag) || (/rel=["']?preload/i.test(tag) && /as=["']?script/i.test(tag))
+    const href = tag.match(/href=["']([^"']+)["']/i)
+    if (!isScriptHint || !href) continue
+    try {
+      hints.add(new URL(href[1], pageUrl).href)
+    } catch {
+      // Skip hints whose href is not a URL
+    }
+  }
+
+  const buildId = html.match(/"buildId"\s*:\s*"([^"]+)"/)
+  if (buildId) {
+    const assetPrefix = html.match(/"assetPrefix"\s*:\s*"([^"]*)"/)?.[1] || ''
+    const root = new URL(`${assetPrefix.replace(/\/$/, '')}/_next/static/${buildId[1]}/`, pageUrl).href
+    hints.add(`${root}_buildManifest.js`)
+    hints.add(`${root}_ssgManifest.js`)
+  }
+
+  return Array.from(hints)
+}
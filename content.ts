@@ -1,23 +1,30 @@
 // Content script to detect endpoints on the current page
 // This runs in the context of web pages to extract additional endpoint information
 
-interface EndpointInfo {
-  url: string
-  method?: string
-  type: 'api' | 'static' | 'page' | 'unknown'
-  source: string
-  line?: number
-}
+import type { EndpointInfo } from "~background/messages/scrape-website"
+import { applyEndpointClasses, categorizeUrl, loadEndpointClasses } from "~endpointClassifier"
+import { extractDomForms, formToEndpoint } from "~forms"
+import { createLineIndex } from "~lineIndex"
+import { annotateOrigins } from "~origins"
+import { loadExtractionRules, matchRules, type ExtractionRule } from "~patternRegistry"
+import { findRealtimeChannels } from "~realtime"
+import {
+  channelsToEndpoints,
+  isValidEndpoint,
+  normalizeUrl,
+  withQueryParameters
+} from "~scriptExtraction"
 
-const extractEndpointsFromPage = (): EndpointInfo[] => 
+const extractEndpointsFromPage = async (): Promise<EndpointInfo[]> => {
   const endpoints: EndpointInfo[] = []
+  const [rules, classes] = await Promise.all([loadExtractionRules(), loadEndpointClasses()])
   
   // Extract from all script tags
   const scripts = document.querySelectorAll('script')
   scripts.forEach((script, index) => {
     if (script.textContent) {
-      const scriptEndpoints = extractEndpointsFromText(script.textContent, `Script ${index + 1}`)
-      endpoints.push(...scriptEndpoints)
+      const scriptEndpoints = extractEndpointsFromText(script.textContent, `Script ${index + 1}`, rules)
+      endpoints.push(...scriptEndpoints, ...extractRealtimeEndpoints(script.textContent, `Script ${index + 1}`))
     }
   })
   
@@ -28,9 +35,9 @@ const extractEndpointsFromPage = (): EndpointInfo[] =>
     const onload = element.getAttribute('onload')
     const onerror = element.getAttribute('onerror')
     
-    [onclick, onload, onerror].forEach(handler => {
+    ;[onclick, onload, onerror].forEach(handler => {
       if (handler) {
-        const handlerEndpoints = extractEndpointsFromText(handler, `Event Handler ${index + 1}`)
+        const handlerEndpoints = extractEndpointsFromText(handler, `Event Handler ${index + 1}`, rules)
         endpoints.push(...handlerEndpoints)
       }
     })
@@ -43,145 +50,69 @@ const extractEndpointsFromPage = (): EndpointInfo[] =>
     const dataSrc = element.getAttribute('data-src')
     const dataHref = element.getAttribute('data-href')
     
-    [dataUrl, dataSrc, dataHref].forEach(url => {
+    ;[dataUrl, dataSrc, dataHref].forEach(url => {
       if (url && isValidEndpoint(url)) {
-        endpoints.push({
+        endpoints.push(withQueryParameters({
           url: normalizeUrl(url),
           type: categorizeEndpoint(url),
           source: `Data Attribute ${index + 1}`,
           line: 0
-        })
+        }, url))
       }
     })
   })
   
-  return endpoints
-}
-
-const extractEndpointsFromText = (text: string, source: string): EndpointInfo[] => {
-  const endpoints: EndpointInfo[] = []
-  
-  // Common API endpoint patterns
-  const patterns = [
-    // REST API patterns
-    /["']\/api\/[^"']*["']/gi,
-    /["']\/v\d+\/[^"']*["']/gi,
-    /["']\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]+["']/gi,
-    
-    // Common endpoint patterns
-    /["']\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]*["']/gi,
-    /["']\/[a-zA-Z0-9_-]+\.json["']/gi,
-    /["']\/[a-zA-Z0-9_-]+\.xml["']/gi,
-    
-    // URL patterns
-    /https?:\/\/[^\s"']+/gi,
-    /["']https?:\/\/[^"']*["']/gi,
-    
-    // Fetch/axios patterns
-    /fetch\s*\(\s*["']([^"']+)["']/gi,
-    /axios\.[a-z]+\s*\(\s*["']([^"']+)["']/gi,
-    /\.get\s*\(\s*["']([^"']+)["']/gi,
-    /\.post\s*\(\s*["']([^"']+)["']/gi,
-    /\.put\s*\(\s*["']([^"']+)["']/gi,
-    /\.delete\s*\(\s*["']([^"']+)["']/gi,
-    
-    // jQuery patterns
-    /\$\.(get|post|ajax)\s*\(\s*["']([^"']+)["']/gi,
-    
-    // XMLHttpRequest patterns
-    /open\s*\(\s*["'](GET|POST|PUT|DELETE)["']\s*,\s*["']([^"']+)["']/gi,
-  ]
-
-  patterns.forEach(pattern => {
-    let match
-    while ((match = pattern.exec(text)) !== null) {
-      let url = match[1] || match[0]
-      
-      // Clean up the URL
-      url = url.replace(/["']/g, '').trim()
-      
-      if (url && isValidEndpoint(url)) {
-        const endpoint: EndpointInfo = {
-          url: normalizeUrl(url),
-          type: categorizeEndpoint(url),
-          source: source,
-          line: getLineNumber(text, match.index)
-        }
-        
-        // Extract HTTP method if available
-        if (match[0].includes('GET')) endpoint.method = 'GET'
-        else if (match[0].includes('POST')) endpoint.method = 'POST'
-        else if (match[0].includes('PUT')) endpoint.method = 'PUT'
-        else if (match[0].includes('DELETE')) endpoint.method = 'DELETE'
-        
-        endpoints.push(endpoint)
-      }
-    }
+  // Extract from forms, with their method, encoding and fields
+  extractDomForms(document).forEach((form, index) => {
+    endpoints.push(formToEndpoint(form, `Form ${index + 1}`))
   })
-
-  return endpoints
-}
-
-const isValidEndpoint = (url: string): boolean => {
-  // Filter out common non-endpoint patterns
-  const excludePatterns = [
-    /^#/,
-    /^javascript:/,
-    /^mailto:/,
-    /^tel:/,
-    /\.(css|js|png|jpg|jpeg|gif|svg|ico|woff|woff2|ttf|eot)$/i,
-    /^\/$/, // Just root path
-    /^\/\s*$/, // Root with whitespace
-  ]
   
-  return !excludePatterns.some(pattern => pattern.test(url))
+  return applyEndpointClasses(annotateOrigins(endpoints, window.location.href), classes)
 }
 
-const normalizeUrl = (url: string): string => {
-  // Remove query parameters and fragments for cleaner display
-  return url.split('?')[0].split('#')[0]
+const extractEndpointsFromText = (text: string, source: string, rules: ExtractionRule[]): EndpointInfo[] => {
+  const lineAt = createLineIndex(text)
+  return matchRules(text, rules)
+    .filter(match => isValidEndpoint(match.url))
+    .map(match => {
+      const endpoint: EndpointInfo = {
+        url: normalizeUrl(match.url),
+        type: match.type || categorizeEndpoint(match.url),
+        source: source,
+        line: lineAt(match.index)
+      }
+      if (match.method) endpoint.method = match.method
+      return withQueryParameters(endpoint, match.url)
+    })
 }
 
-const categorizeEndpoint = (url: string): EndpointInfo['type'] => {
-  if (url.includes('/api/') || url.includes('/v1/') || url.includes('/v2/')) {
-    return 'api'
-  }
-  if (url.match(/\.(html|htm|php|asp|aspx)$/i)) {
-    return 'page'
-  }
-  if (url.match(/\.(js|css|png|jpg|jpeg|gif|svg|ico|woff|woff2|ttf|eot)$/i)) {
-    return 'static'
-  }
-  return 'unknown'
-}
+// Same conversion as the background scan, so both report a channel alike
+const extractRealtimeEndpoints = (text: string, source: string): EndpointInfo[] =>
+  channelsToEndpoints(text, findRealtimeChannels(text), source, createLineIndex(text))
 
-const getLineNumber = (text: string, index: number): number => {
-  return text.substring(0, index).split('\n').length
-}
+const categorizeEndpoint = (url: string): EndpointInfo['type'] => categorizeUrl(url)
 
 // Listen for messages from the popup
 chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
   if (request.action === 'extractEndpoints') {
-    const endpoints = extractEndpointsFromPage()
-    sendResponse({ endpoints })
+    extractEndpointsFromPage().then(endpoints => sendResponse({ endpoints }))
+    // Keep the channel open for the asynchronous response
+    return true
   }
 })
 
-// Auto-extract endpoints when page loads
-if (document.readyState === 'loading') {
-  document.addEventListener('DOMContentLoaded', () => {
-    const endpoints = extractEndpointsFromPage()
-    chrome.runtime.sendMessage({
-      action: 'endpointsDetected',
-      endpoints: endpoints,
-      url: window.location.href
-    })
-  })
-} else {
-  const endpoints = extractEndpointsFromPage()
+const reportEndpoints = async () => {
+  const endpoints = await extractEndpointsFromPage()
   chrome.runtime.sendMessage({
     action: 'endpointsDetected',
     endpoints: endpoints,
     url: window.location.href
   })
 }
+
+// Auto-extract endpoints when page loads
+if (document.readyState === 'loading') {
+  document.addEventListener('DOMContentLoaded', reportEndpoints)
+} else {
+  reportEndpoints()
+}
@@ -0,0 +1,152 @@
+import type { EndpointInfo } from "~background/messages/scrape-website"
+
+export interface EndpointClass {
+  id: string
+  label: string
+  color: string
+  // Regular expression source tested against the URL, case-insensitively
+  urlPattern?: string
+  // Regular expression source tested against each parameter name
+  parameterPattern?: string
+  enabled: boolean
+  builtIn?: boolean
+}
+
+const STORAGE_KEY = 'endpointClasses'
+
+interface StoredClasses {
+  custom: EndpointClass[]
+  disabledBuiltIns: string[]
+}
+
+const builtIn = (
+  id: string,
+  label: string,
+  color: string,
+  match: Pick<EndpointClass, 'urlPattern' | 'parameterPattern'>
+): EndpointClass => ({ id, label, color, ...match, enabled: true, builtIn: true })
+
+/**
+ * Built-in classes in priority order: the first match becomes an
+ * endpoint's `type`, so structural classes (what the URL serves) come
+ * before the ones describing what it does. API paths win over file
+ * extensions, so `/api/report.php` stays an API.
+ */
+export const BUILT_IN_CLASSES: EndpointClass[] = [
+  builtIn('graphql', 'GraphQL', '#e535ab', { urlPattern: /\/(?:graphql|gql|graphiql)(?:\/|$|\?)|\/v\d+\/graphql/.source }),
+  builtIn('realtime', 'Realtime', '#0dcaf0', { urlPattern: /^wss?:\/\/|\/(?:ws|websocket|socket\.io|sockjs|signalr|cable|sse|eventsource)(?:\/|$|\?)/.source }),
+  builtIn('api', 'API', '#dc3545', {
+    urlPattern: /(?:^|\/)(?:api|apis|rest|rpc|jsonrpc|xmlrpc|ajax|services?|odata|webhooks?)(?:\/|$|\?|\.)|\/v\d+(?:\.\d+)?(?:\/|$)|\.(?:json|xml)(?:\?|$)|\/_next\/data\//.source
+  }),
+  builtIn('static', 'Static', '#ffc107', { urlPattern: /\.(?:m?js|css|png|jpe?g|gif|svg|ico|webp|avif|woff2?|ttf|eot|otf|map)(?:\?|$)/.source }),
+  builtIn('page', 'Pages', '#28a745', { urlPattern: /\.(?:html?|php\d?|aspx?|jsp|jspx|cfm|shtml)(?:\?|$)/.source }),
+  builtIn('auth', 'Auth/login', '#6610f2', {
+    urlPattern: /\/(?:login|logout|log-in|log-out|signin|signout|sign-in|sign-out|signup|sign-up|register|auth|authorize|oauth2?|openid|sso|saml|cas|token|refresh|session|sessions|password|forgot|reset|2fa|mfa|otp|verify|me|whoami)(?:\/|$|\?|\.)/.source
+  }),
+  builtIn('admin', 'Admin', '#b02a37', {
+    urlPattern: /\/(?:admin|administrator|wp-admin|manage|manager|management|dashboard|console|backoffice|back-office|cms|staff|internal|superuser|sudo)(?:\/|$|\?|\.)/.source
+  }),
+  builtIn('upload', 'Upload', '#fd7e14', {
+    urlPattern: /\/(?:upload|uploads|file-upload|fileupload|import|attach|attachments?|media\/new)(?:\/|$|\?|\.)|[\/_-]upload/.source
+  }),
+  builtIn('download', 'File download', '#20c997', {
+    urlPattern: /\/(?:download|downloads|export|exports|files?|attachment|getfile|fetchfile|document)(?:\/|$|\?|\.)|\.(?:pdf|zip|rar|7z|tar|gz|tgz|csv|xlsx?|docx?|pptx?|bak|sql)(?:\?|$)/.source,
+    parameterPattern: /^(?:file|filename|file_name|filepath|path|doc|document|download|attachment)$/.source
+  }),
+  builtIn('redirect', 'Redirect', '#d63384', {
+    urlPattern: /\/(?:redirect|redir|goto|out|away|outbound|external|link|callback|return)(?:\/|$|\?|\.)/.source,
+    parameterPattern: /^(?:redirect|redirect_?uri|redirect_?url|redirectto|return|return_?url|return_?to|returnto|next|url|goto|continue|dest|destination|target|forward|callback|r|u)$/.source
+  }),
+  builtIn('debug', 'Health/debug', '#6f42c1', {
+    urlPattern: /\/(?:health|healthz|healthcheck|readyz|livez|status|ping|metrics|debug|_debug|__debug__|actuator|trace|phpinfo(?:\.php)?|server-status|server-info|info|version|env|heapdump|swagger-ui|graphiql|elmah\.axd)(?:\/|$|\?|\.)/.source
+  })
+]
+
+const testPattern = (pattern: string | undefined, value: string): boolean => {
+  if (!pattern) return false
+  try {
+    return new RegExp(pattern, 'i').test(value)
+  } catch {
+    // A broken custom pattern never matches
+    return false
+  }
+}
+
+// Ids of every enabled class an endpoint matches, in priority order
+export const classifyEndpoint = (
+  endpoint: Pick<EndpointInfo, 'url' | 'parameters'>,
+  classes: EndpointClass[]
+): string[] =>
+  classes
+    .filter(endpointClass => endpointClass.enabled)
+    .filter(endpointClass =>
+      testPattern(endpointClass.urlPattern, endpoint.url) ||
+      (endpoint.parameters || []).some(parameter => testPattern(endpointClass.parameterPattern, parameter.name))
+    )
+    .map(endpointClass => endpointClass.id)
+
+// Primary type from the built-in URL rules, used while extracting
+export const categorizeUrl = (url: string): string =>
+  classifyEndpoint({ url }, BUILT_IN_CLASSES)[0] || 'unknown'
+
+/**
+ * Attach every matching class to each endpoint. The type a source already
+ * chose is kept first; endpoints still `unknown` take their first match.
+ */
+export const applyEndpointClasses = (
+  endpoints: EndpointInfo[],
+  classes: EndpointClass[]
+): EndpointInfo[] => {
+  for (const endpoint of endpoints) {
+    const matches = classifyEndpoint(endpoint, classes)
+    if (endpoint.type === 'unknown' && matches.length > 0) endpoint.type = matches[0]
+    endpoint.classes = Array.from(new Set([endpoint.type, ...matches]))
+  }
+  return endpoints
+}
+
+export const getClassLabel = (id: string, classes: EndpointClass[] = BUILT_IN_CLASSES): string =>
+  classes.find(endpointClass => endpointClass.id === id)?.label || (id === 'unknown' ? 'Unknown' : id)
+
+// Built-in classes with the user's enable/disable choices applied, followed by the user's own
+export const loadEndpointClasses = async (): Promise<EndpointClass[]> => {
+  let stored: Partial<StoredClasses> = {}
+  try {
+    stored = (await chrome.storage.local.get(STORAGE_KEY))[STORAGE_KEY] || {}
+  } catch (error) {
+    console.warn('Failed to load endpoint classes, using built-ins', error)
+  }
+  const disabled = new Set(stored.disabledBuiltIns || [])
+  return [
+    ...BUILT_IN_CLASSES.map(endpointClass => ({ ...endpointClass, enabled: !disabled.has(endpointClass.id) })),
+    ...(stored.custom || [])
+  ]
+}
+
+export const saveEndpointClasses = async (classes: EndpointClass[]): Promise<void> => {
+  const stored: StoredClasses = {
+    custom: classes.filter(endpointClass => !endpointClass.builtIn),
+    disabledBuiltIns: classes.filter(endpointClass => endpointClass.builtIn && !endpointClass.enabled).map(endpointClass => endpointClass.id)
+  }
+  await chrome.storage.local.set({ [STORAGE_KEY]: stored })
+}
+
+// Problems that would keep a class from working, or null when it is usable
+export const validateEndpointClass = (
+  endpointClass: Pick<EndpointClass, 'id' | 'label' | 'urlPattern' | 'parameterPattern'>,
+  existing: EndpointClass[]
+): string | null => {
+  if (!/^[a-z0-9][a-z0-9-]*$/.test(endpointClass.id)) return 'Id must be lowercase letters, digits and dashes'
+  if (existing.some(c => c.id === endpointClass.id) || endpointClass.id === 'unknown') return `Class "${endpointClass.id}" already exists`
+  if (!endpointClass.label.trim()) return 'Label is required'
+  if (!endpointClass.urlPattern && !endpointClass.parameterPattern) return 'A URL or parameter pattern is required'
+  for (const pattern of [endpointClass.urlPattern, endpointClass.parameterPattern]) {
+    if (!pattern) continue
+    try {
+      new RegExp(pattern, 'i')
+    } catch (error) {
+      return error instanceof Error ? error.message : 'Invalid pattern'
+    }
+  }
+  return null
+}
@@ -0,0 +1,226 @@
+import type { RequestScheduler, SchedulerStats } from "~requestScheduler"
+
+export type ExposureSeverity = 'critical' | 'high' | 'medium' | 'low' | 'info'
+
+export interface ExposureCheck {
+  path: string
+  label: string
+  category: 'vcs' | 'config' | 'backup' | 'server' | 'credentials' | 'debug'
+  severity: ExposureSeverity
+  // Names of the INDICATORS the response must match to count as a real hit
+  indicators: string[]
+}
+
+export interface ExposureFinding {
+  url: string
+  label: string
+  category: ExposureCheck['category']
+  severity: ExposureSeverity
+  // CONFIRMED: an indicator matched; POSSIBLE: a 200 that differs from the catch-all baseline
+  detection: 'CONFIRMED' | 'POSSIBLE'
+  status: number
+  contentLength: number
+  indicators: string[]
+  sample?: string
+}
+
+export interface ExposureScanSummary {
+  baseUrl: string
+  totalChecks: number
+  // Response to a random path, used to recognise catch-all pages
+  baseline: { status: number, contentLength: number } | null
+  findings: ExposureFinding[]
+}
+
+// Broadcast by the background while a scan runs
+export interface ExposureScanProgress {
+  current: number
+  total: number
+  stats: SchedulerStats
+}
+
+export const EXPOSURE_SCAN_PROGRESS_ACTION = 'exposureScanProgress'
+
+// Content that proves a file is what its path says, in the style of detectLfiIndicators
+const INDICATORS: Record<string, RegExp> = {
+  'Git ref': /^ref:\s*refs\/heads\/|^[0-9a-f]{40}\s*$/m,
+  'Git config section': /\[core\]|\[remote "/,
+  'SVN entries format': /^(?:8|9|10|12)\s*\n/,
+  'SQLite header': /^SQLite format 3/,
+  'Mercurial config section': /\[paths\]|\[ui\]/,
+  'DS_Store magic': /^\0\0\0\x01Bud1/,
+  'Environment variables': /^\s*(?:export\s+)?[A-Z][A-Z0-9_]*\s*=\s*\S/m,
+  'AWS credentials': /aws_access_key_id\s*=/i,
+  'npm registry config': /_authToken\s*=|registry\s*=/,
+  'Password hashes': /^[\w.-]+:(?:\$apr1\$|\$2[aby]\$|\{SHA\}|[A-Za-z0-9./]{13}$)/m,
+  'Private key': /-----BEGIN (?:RSA |OPENSSH |EC |DSA )?PRIVATE KEY-----/,
+  'Apache directives': /RewriteEngine|RewriteRule|Deny from|Require all|AuthType/i,
+  'IIS configuration': /<configuration>|<system\.web(?:Server)?>/i,
+  'Compose services': /^services:\s*$/m,
+  'WordPress DB settings': /DB_PASSWORD|DB_NAME/,
+  'SQL statements': /CREATE TABLE|INSERT INTO|-- MySQL dump|PostgreSQL database dump/i,
+  'ZIP archive': /^PK\x03\x04/,
+  'Apache status': /Apache Server Status|Server uptime:/i,
+  'Apache info': /Apache Server Information|Server Settings/i,
+  'phpinfo output': /<title>phpinfo\(\)<\/title>|PHP Version \d|PHP License/i,
+  'ELMAH log': /Error Log for|ELMAH/i,
+  'Spring environment': /"activeProfiles"|"propertySources"/,
+  'Wildcard cross-domain policy': /allow-access-from\s+domain=["']\*["']/i,
+  // Server-side source leaking through a backup copy
+  'PHP source': /<\?php/,
+  'ASP/JSP source': /<%@|<%=/,
+  'Server-side imports': /^\s*(?:import|from)\s+[\w.]+|^\s*using System|require\(['"]/m
+}
+
+export const EXPOSURE_CHECKS: ExposureCheck[] = [
+  { path: '/.git/HEAD', label: 'Git repository HEAD', category: 'vcs', severity: 'critical', indicators: ['Git ref'] },
+  { path: '/.git/config', label: 'Git repository config', category: 'vcs', severity: 'critical', indicators: ['Git config section'] },
+  { path: '/.svn/entries', label: 'Subversion entries', category: 'vcs', severity: 'high', indicators: ['SVN entries format'] },
+  { path: '/.svn/wc.db', label: 'Subversion working copy database', category: 'vcs', severity: 'high', indicators: ['SQLite header'] },
+  { path: '/.hg/hgrc', label: 'Mercurial config', category: 'vcs', severity: 'high', indicators: ['Mercurial config section'] },
+  { path: '/.DS_Store', label: 'macOS .DS_Store directory listing', category: 'vcs', severity: 'low', indicators: ['DS_Store magic'] },
+  { path: '/.env', label: 'Environment file', category: 'credentials', severity: 'critical', indicators: ['Environment variables'] },
+  { path: '/.env.production', label: 'Environment file', category: 'credentials', severity: 'critical', indicators: ['Environment variables'] },
+  { path: '/.aws/credentials', label: 'AWS credentials', category: 'credentials', severity: 'critical', indicators: ['AWS credentials'] },
+  { path: '/.npmrc', label: 'npm config', category: 'credentials', severity: 'high', indicators: ['npm registry config'] },
+  { path: '/.htpasswd', label: 'Apache password file', category: 'credentials', severity: 'critical', indicators: ['Password hashes'] },
+  { path: '/id_rsa', label: 'SSH private key', category: 'credentials', severity: 'critical', indicators: ['Private key'] },
+  { path: '/.htaccess', label: 'Apache .htaccess', category: 'config', severity: 'medium', indicators: ['Apache directives'] },
+  { path: '/web.config', label: 'IIS web.config', category: 'config', severity: 'high', indicators: ['IIS configuration'] },
+  { path: '/docker-compose.yml', label: 'Docker Compose file', category: 'config', severity: 'medium', indicators: ['Compose services'] },
+  { path: '/crossdomain.xml', label: 'Permissive crossdomain.xml', category: 'config', severity: 'low', indicators: ['Wildcard cross-domain policy'] },
+  { path: '/wp-config.php.bak', label: 'WordPress config backup', category: 'backup', severity: 'critical', indicators: ['WordPress DB settings'] },
+  { path: '/config.php.bak', label: 'PHP config backup', category: 'backup', severity: 'high', indicators: ['PHP source'] },
+  { path: '/backup.sql', label: 'SQL dump', category: 'backup', severity: 'critical', indicators: ['SQL statements'] },
+  { path: '/dump.sql', label: 'SQL dump', category: 'backup', severity: 'critical', indicators: ['SQL statements'] },
+  { path: '/backup.zip', label: 'Site backup archive', category: 'backup', severity: 'high', indicators: ['ZIP archive'] },
+  { path: '/server-status', label: 'Apache server-status', category: 'server', severity: 'medium', indicators: ['Apache status'] },
+  { path: '/server-info', label: 'Apache server-info', category: 'server', severity: 'medium', indicators: ['Apache info'] },
+  { path: '/phpinfo.php', label: 'phpinfo() page', category: 'debug', severity: 'medium', indicators: ['phpinfo output'] },
+  { path: '/info.php', label: 'phpinfo() page', category: 'debug', severity: 'medium', indicators: ['phpinfo output'] },
+  { path: '/elmah.axd', label: 'ELMAH error log', category: 'debug', severity: 'high', indicators: ['ELMAH log'] },
+  { path: '/actuator/env', label: 'Spring Boot actuator env', category: 'debug', severity: 'high', indicators: ['Spring environment'] }
+]
+
+/**
+ * Names of the indicators found in a response body, skipping any the
+ * baseline page also matches.
+ */
+export const detectExposureIndicators = (body: string, names: string[], baseline: string | null = null): string[] =>
+  names.filter(name => INDICATORS[name]?.test(body) && !(baseline !== null && INDICATORS[name].test(baseline)))
+
+const BACKUP_SUFFIXES = ['.bak', '~', '.old', '.orig', '.save']
+
+// Only server-side files reveal something new when their backup is served as plain text
+const SERVER_SIDE_FILE = /\.(php\d?|phtml|asp|aspx|jsp|jspx|cfm|py|rb|pl|cgi|config|ini|inc)$/i
+
+/**
+ * Backup-copy checks (`.bak`, `~`, `.old`, ...) for discovered server-side
+ * pages of the same origin.
+ */
+export const buildBackupChecks = (pageUrls: string[], baseUrl: string): ExposureCheck[] => {
+  const origin = new URL(baseUrl).origin
+  const paths = new Set<string>()
+  for (const pageUrl of pageUrls) {
+    try {
+      const url = new URL(pageUrl, baseUrl)
+      if (url.origin !== origin || !SERVER_SIDE_FILE.test(url.pathname)) continue
+      BACKUP_SUFFIXES.forEach(suffix => paths.add(`${url.pathname}${suffix}`))
+    } catch {}
+  }
+  return Array.from(paths).map(path => ({
+    path,
+    label: 'Backup copy of a discovered page',
+    category: 'backup',
+    severity: 'high',
+    indicators: ['PHP source', 'ASP/JSP source', 'Server-side imports']
+  }))
+}
+
+const REQUEST_INIT: RequestInit = { redirect: 'manual', cache: 'no-store' }
+
+const safeReadText = async (res: Response): Promise<string> => {
+  try {
+    return await res.text()
+  } catch {
+    return ''
+  }
+}
+
+// Catch-all pages return (nearly) the same body for every path
+const looksLikeBaseline = (body: string, baseline: string | null): boolean => {
+  if (baseline === null) return false
+  if (body === baseline) return true
+  const lengthRatio = Math.abs(body.length - baseline.length) / Math.max(baseline.length, 1)
+  return lengthRatio < 0.1 && body.slice(0, 200) === baseline.slice(0, 200)
+}
+
+const randomPath = () => `/${Math.random().toString(36).slice(2)}${Date.now().toString(36)}`
+
+/**
+ * Request every check against the target's origin. A hit needs a matching
+ * indicator in a body that does not look like the random-path baseline;
+ * 200 responses that differ from the baseline without an indicator are
+ * reported as POSSIBLE at `info` severity. All checks are queued on
+ * `request` at once and its scheduler decides how many run in parallel.
+ */
+export const runExposureScan = async (
+  baseUrl: string,
+  checks: ExposureCheck[],
+  request: RequestScheduler['fetch'],
+  onProgress?: (current: number, total: number) => void
+): Promise<ExposureScanSummary> => {
+  const origin = new URL(baseUrl).origin
+
+  let baselineBody: string | null = null
+  let baseline: ExposureScanSummary['baseline'] = null
+  try {
+    const res = await request(`${origin}${randomPath()}`, REQUEST_INIT)
+    const body = await safeReadText(res)
+    baseline = { status: res.status, contentLength: body.length }
+    if (res.ok) baselineBody = body
+  } catch (error) {
+    console.warn(`Failed to fetch baseline for ${origin}:`, error)
+  }
+
+  let completed = 0
+  const runCheck = async (check: ExposureCheck): Promise<ExposureFinding | null> => {
+    const url = `${origin}${check.path}`
+    try {
+      const res = await request(url, REQUEST_INIT)
+      if (res.status !== 200) return null
+      const body = await safeReadText(res)
+      if (looksLikeBaseline(body, baselineBody)) return null
+
+      const indicators = detectExposureIndicators(body, check.indicators, baselineBody)
+      const confirmed = indicators.length > 0
+      // An HTML page where a file was expected is almost always a soft 404
+      if (!confirmed && /^\s*(<!doctype html|<html)/i.test(body)) return null
+
+      return {
+        url,
+        label: check.label,
+        category: check.category,
+        severity: confirmed ? check.severity : 'info',
+        detection: confirmed ? 'CONFIRMED' : 'POSSIBLE',
+        status: res.status,
+        contentLength: body.length,
+        indicators,
+        sample: body.slice(0, 300).replace(/[^\x20-\x7e\n\t]/g, '.')
+      }
+    } catch (error) {
+      // Skip failed requests, continue scanning
+      console.warn(`Failed to check ${url}:`, error)
+      return null
+    } finally {
+      completed += 1
+      onProgress?.(completed, checks.length)
+    }
+  }
+
+  // Findings keep the order of the checks, whatever order responses arrive in
+  const results = await Promise.all(checks.map(runCheck))
+  const findings = results.filter((finding): finding is ExposureFinding => finding !== null)
+
+  return { baseUrl: origin, totalChecks: checks.length, baseline, findings }
+}
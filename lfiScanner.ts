@@ -0,0 +1,241 @@
+import { resolvePayload } from "~lfiMutations"
+import {
+  buildTemplateRequest,
+  escapeUrlPayload,
+  sendTemplateRequest,
+  type InjectionLocation,
+  type RequestTemplate
+} from "~lfiRequestTemplate"
+import type { RequestScheduler } from "~requestScheduler"
+import type { WordlistUsage } from "~wordlists"
+
+export interface LfiSingleResult {
+  parameter: string
+  originalValue: string | null
+  // Where the payload went; query parameters when absent
+  location?: InjectionLocation
+  testedUrl: string
+  payload: string
+  status: number
+  contentLength: number
+  indicators: string[]
+  vulnerable: boolean
+  detection: 'CONFIRMED_LFI' | 'POSSIBLE_LFI' | 'SUSPICIOUS' | 'NOT_VULNERABLE'
+  confidence: 'Low' | 'Medium' | 'High'
+  sample?: string
+}
+
+export interface LfiScanSummary {
+  baseUrl: string
+  parametersTested: {
+    name: string
+    originalValue: string | null
+    totalTests: number
+    vulnerableCount: number
+  }[]
+  totalTests: number
+  vulnerableCount: number
+  // Payloads sent per parameter and the lists and categories they came from
+  payloadCount: number
+  wordlists: WordlistUsage[]
+  results: LfiSingleResult[]
+}
+
+// Status and body length of the untouched URL, compared against every test
+export interface LfiBaseline {
+  status: number | null
+  length: number | null
+}
+
+const safeReadText = async (res: Response): Promise<string> => {
+  try {
+    return await res.text()
+  } catch {
+    return ''
+  }
+}
+
+const PAYLOAD_MARKER = '__LFI_PAYLOAD__'
+
+/**
+ * Put a payload into one query parameter. The payload is sent verbatim
+ * rather than percent-encoded again, so encoded traversal variants reach
+ * the server in the form they were written.
+ */
+export const buildLfiTestUrl = (baseUrl: string, param: string, payload: string): string => {
+  const test = new URL(baseUrl)
+  if (test.searchParams.has(param)) {
+    test.searchParams.set(param, PAYLOAD_MARKER)
+  } else {
+    test.searchParams.append(param, PAYLOAD_MARKER)
+  }
+  return test.toString().replace(PAYLOAD_MARKER, () => escapeUrlPayload(payload))
+}
+
+export const detectLfiIndicators = (body: string): string[] => {
+  const indicators: { label: string, regex: RegExp }[] = [
+    // Linux passwd / shells
+    { label: 'etc/passwd', regex: /root:x:0:0:|:\/bin\/(bash|sh|csh|zsh)|daemon:x:/i },
+    { label: 'etc/shadow', regex: /root:.*:1[0-9]{4,}:/i },
+    { label: 'Unix hosts file', regex: /127\.0\.0\.1\s+localhost|::1\s+localhost/i },
+    { label: 'proc/environ', regex: /PATH=|HOME=|SHELL=|USER=|PWD=/i },
+    { label: 'proc/version', regex: /Linux version \d+\.\d+\.\d+/i },
+    // Windows INI files
+    { label: 'Windows win.ini', regex: /\[fonts\]|\[extensions\]|\[mci extensions\]|\[drivers\]|for 16-bit app support/i },
+    { label: 'Windows boot.ini', regex: /\[boot loader\]|\[operating systems\]|multi\(0\)disk/i },
+    { label: 'Windows hosts', regex: /127\.0\.0\.1\s+localhost.*::1/i },
+    { label: 'PHP source', regex: /<\?php|<\?=|phpinfo\(\)|echo\s+\$_/i },
+    { label: 'Apache config', regex: /<Directory|LoadModule|ServerRoot/i },
+    { label: 'SSH config', regex: /Host \*|IdentityFile|UserKnownHostsFile/i },
+    { label: 'MySQL config', regex: /\[mysqld\]|\[client\]|datadir=/i },
+    { label: 'Bash history', regex: /^#\d{10}$|^ls\s|^cd\s|^cat\s/i },
+    { label: 'Error disclosure', regex: /Warning:.*include|Failed opening.*for inclusion|No such file or directory/i }
+  ]
+  const hits: string[] = []
+  for (const i of indicators) {
+    if (i.regex.test(body)) hits.push(i.label)
+  }
+  return hits
+}
+
+export const analyzeLfiHeuristics = (
+  indicators: string[],
+  baselineStatus: number | null,
+  baselineLength: number | null,
+  status: number,
+  length: number
+): { detection: LfiSingleResult['detection'], confidence: LfiSingleResult['confidence'] } => {
+  // 1) Known file indicators present → CONFIRMED LFI
+  if (indicators.length > 0) {
+    return { detection: 'CONFIRMED_LFI', confidence: 'High' }
+  }
+
+  // 2) Response length changes significantly (>30%) → POSSIBLE LFI
+  if (baselineLength !== null && baselineLength > 0) {
+    const diffRatio = Math.abs(length - baselineLength) / baselineLength
+    if (diffRatio > 0.3) {
+      return { detection: 'POSSIBLE_LFI', confidence: 'Medium' }
+    }
+  }
+
+  // 3) Status code changes from baseline → SUSPICIOUS
+  if (baselineStatus !== null && baselineStatus !== status) {
+    return { detection: 'SUSPICIOUS', confidence: 'Low' }
+  }
+
+  // 4) Else → NOT VULNERABLE
+  return { detection: 'NOT_VULNERABLE', confidence: 'Low' }
+}
+
+// With a template, the baseline is the template sent with every original value
+export const fetchLfiBaseline = async (
+  targetUrl: string,
+  request: RequestScheduler['fetch'],
+  template?: RequestTemplate
+): Promise<LfiBaseline> => {
+  try {
+    const baselineRes = template
+      ? await sendTemplateRequest(buildTemplateRequest(template), request)
+      : await request(targetUrl)
+    const baselineBody = baselineRes.ok ? await safeReadText(baselineRes) : ""
+    return { status: baselineRes.status, length: baselineBody.length }
+  } catch (baselineErr) {
+    console.warn(`Failed to fetch baseline for ${targetUrl}:`, baselineErr)
+    return { status: null, length: null }
+  }
+}
+
+// Fields every result shares, whichever location the payload was sent in
+const classifyLfiResponse = async (res: Response, baseline: LfiBaseline) => {
+  const bodyText = res.ok ? await safeReadText(res) : ""
+  const indicators = detectLfiIndicators(bodyText)
+
+  const { detection, confidence } = analyzeLfiHeuristics(
+    indicators,
+    baseline.status,
+    baseline.length,
+    res.status,
+    bodyText.length
+  )
+
+  return {
+    status: res.status,
+    contentLength: bodyText.length,
+    indicators,
+    vulnerable: detection !== 'NOT_VULNERABLE',
+    detection,
+    confidence,
+    sample: bodyText.slice(0, 300)
+  }
+}
+
+/**
+ * Send one payload in one parameter and classify the response against the
+ * baseline. Network failures are thrown so the caller can skip the test.
+ */
+export const testLfiPayload = async (
+  targetUrl: string,
+  parameter: string,
+  originalValue: string | null,
+  payload: string,
+  baseline: LfiBaseline,
+  request: RequestScheduler['fetch']
+): Promise<LfiSingleResult> => {
+  const resolvedPayload = resolvePayload(payload, originalValue)
+  const testedUrl = buildLfiTestUrl(targetUrl, parameter, resolvedPayload)
+  const res = await request(testedUrl)
+
+  // Record every response with its heuristic classification
+  return {
+    parameter,
+    originalValue,
+    testedUrl,
+    payload: resolvedPayload,
+    ...(await classifyLfiResponse(res, baseline))
+  }
+}
+
+// The same test for one marked point of a request template
+export const testLfiTemplatePayload = async (
+  template: RequestTemplate,
+  pointIndex: number,
+  payload: string,
+  baseline: LfiBaseline,
+  request: RequestScheduler['fetch']
+): Promise<LfiSingleResult> => {
+  const point = template.points[pointIndex]
+  const resolvedPayload = resolvePayload(payload, point.originalValue)
+  const filled = buildTemplateRequest(template, pointIndex, resolvedPayload)
+  const res = await sendTemplateRequest(filled, request)
+
+  return {
+    parameter: point.name,
+    originalValue: point.originalValue,
+    location: point.location,
+    testedUrl: filled.url,
+    payload: resolvedPayload,
+    ...(await classifyLfiResponse(res, baseline))
+  }
+}
+
+// Per-parameter counts for the results gathered so far
+export const summarizeLfiResults = (
+  baseUrl: string,
+  parameters: { name: string, originalValue: string | null }[],
+  testsPerParameter: number,
+  results: LfiSingleResult[],
+  wordlists: WordlistUsage[] = []
+): LfiScanSummary => ({
+  baseUrl,
+  parametersTested: parameters.map(({ name, originalValue }) => ({
+    name,
+    originalValue,
+    totalTests: testsPerParameter,
+    vulnerableCount: results.filter(r => r.parameter === name && r.vulnerable).length
+  })),
+  totalTests: parameters.length * testsPerParameter,
+  vulnerableCount: results.filter(r => r.vulnerable).length,
+  payloadCount: testsPerParameter,
+  wordlists,
+  results
+})
@@ -0,0 +1,23 @@
+/**
+ * Line lookup for one text: the offsets at which each line starts are
+ * collected on first use and binary-searched afterwards, so numbering
+ * every match of a large bundle stays linear.
+ */
+export const createLineIndex = (text: string): ((index: number) => number) => {
+  let starts: number[] | null = null
+
+  return (index: number): number => {
+    if (!starts) {
+      starts = [0]
+      for (let i = text.indexOf('\n'); i !== -1; i = text.indexOf('\n', i + 1)) starts.push(i + 1)
+    }
+    let low = 0
+    let high = starts.length - 1
+    while (low < high) {
+      const mid = (low + high + 1) >> 1
+      if (starts[mid] <= index) low = mid
+      else high = mid - 1
+    }
+    return low + 1
+  }
+}
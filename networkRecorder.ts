@@ -0,0 +1,204 @@
+import type { EndpointInfo, EndpointParameter } from "~background/messages/scrape-website"
+import { isGraphqlEndpoint } from "~graphql"
+import { mergeParameters, parseQueryParameters } from "~parameters"
+import { normalizeUrl } from "~scriptExtraction"
+
+export interface NetworkEntry {
+  method: string
+  url: string
+  tabId: number
+  // `fetch`, `xmlhttprequest`, `script`, ... as reported by chrome.webRequest
+  resourceType: string
+  requestContentType?: string
+  status?: number
+  // Set instead of `status` when the request never got a response
+  error?: string
+  initiator?: string
+  bodyParameters?: EndpointParameter[]
+  // Repeated requests to the same method and URL collapse into one entry
+  count: number
+  lastSeen: number
+}
+
+export interface NetworkRecorderState {
+  recording: boolean
+  // Tab being recorded; other tabs and the extension's own requests are ignored
+  tabId: number | null
+  entries: NetworkEntry[]
+}
+
+const STORAGE_KEY = 'networkRecorder'
+const MAX_ENTRIES = 2000
+const PERSIST_DELAY = 1000
+
+let state: NetworkRecorderState = { recording: false, tabId: null, entries: [] }
+// Requests seen in onBeforeRequest that have not completed yet, by requestId
+const pending = new Map<string, NetworkEntry>()
+let persistTimer: ReturnType<typeof setTimeout> | null = null
+let isLoaded = false
+
+// The service worker can be stopped at any time, so state lives in storage
+const loaded = (async () => {
+  const stored = await chrome.storage.local.get(STORAGE_KEY)
+  if (stored[STORAGE_KEY]) state = stored[STORAGE_KEY]
+  isLoaded = true
+})()
+
+// Events that wake the worker arrive before `state` is read back, so they
+// wait for it; waiting ones run in the order they arrived
+const afterLoad = <T>(listener: (details: T) => void) => (details: T) => {
+  if (isLoaded) listener(details)
+  else loaded.then(() => listener(details))
+}
+
+const persist = () => {
+  if (persistTimer) return
+  persistTimer = setTimeout(() => {
+    persistTimer = null
+    chrome.storage.local.set({ [STORAGE_KEY]: state })
+  }, PERSIST_DELAY)
+}
+
+const isRecorded = (details: { tabId: number, url: string }) =>
+  state.recording &&
+  details.tabId === state.tabId &&
+  /^https?:/i.test(details.url)
+
+const formDataParameters = (
+  body: chrome.webRequest.WebRequestBody | undefined
+): EndpointParameter[] | undefined => {
+  if (!body?.formData) return undefined
+  return Object.entries(body.formData).map(([name, values]) => ({
+    name,
+    location: 'body' as const,
+    example: values[0]
+  }))
+}
+
+const record = (entry: NetworkEntry) => {
+  const existing = state.entries.find(e => e.method === entry.method && e.url === entry.url)
+  if (existing) {
+    existing.count += 1
+    existing.lastSeen = entry.lastSeen
+    existing.status = entry.status ?? existing.status
+    existing.error = entry.error
+    existing.requestContentType = entry.requestContentType ?? existing.requestContentType
+    existing.bodyParameters = entry.bodyParameters
+      ? mergeParameters(existing.bodyParameters, entry.bodyParameters)
+      : existing.bodyParameters
+  } else {
+    if (state.entries.length >= MAX_ENTRIES) return
+    state.entries.push(entry)
+  }
+  persist()
+}
+
+/**
+ * Attach the chrome.webRequest listeners. Must be called synchronously at
+ * service worker startup so Chrome wakes the worker for recorded traffic.
+ */
+export const registerNetworkRecorder = () => {
+  const filter: chrome.webRequest.RequestFilter = { urls: ['<all_urls>'] }
+
+  chrome.webRequest.onBeforeRequest.addListener(afterLoad(details => {
+    if (!isRecorded(details)) return
+    pending.set(details.requestId, {
+      method: details.method.toUpperCase(),
+      url: details.url,
+      tabId: details.tabId,
+      resourceType: details.type,
+      initiator: details.initiator,
+      bodyParameters: formDataParameters(details.requestBody),
+      count: 1,
+      lastSeen: details.timeStamp
+    })
+  }), filter, ['requestBody'])
+
+  chrome.webRequest.onSendHeaders.addListener(afterLoad(details => {
+    const entry = pending.get(details.requestId)
+    const contentType = details.requestHeaders?.find(h => h.name.toLowerCase() === 'content-type')
+    if (entry && contentType?.value) entry.requestContentType = contentType.value
+  }), filter, ['requestHeaders'])
+
+  chrome.webRequest.onCompleted.addListener(afterLoad(details => {
+    const entry = pending.get(details.requestId)
+    if (!entry) return
+    pending.delete(details.requestId)
+    record({ ...entry, status: details.statusCode, lastSeen: details.timeStamp })
+  }), filter)
+
+  chrome.webRequest.onErrorOccurred.addListener(afterLoad(details => {
+    const entry = pending.get(details.requestId)
+    if (!entry) return
+    pending.delete(details.requestId)
+    record({ ...entry, error: details.error, lastSeen: details.timeStamp })
+  }), filter)
+}
+
+export const getNetworkRecorderState = async (): Promise<NetworkRecorderState> => {
+  await loaded
+  return state
+}
+
+export const startNetworkRecording = async (tabId: number): Promise<NetworkRecorderState> => {
+  await loaded
+  // Switching tabs starts a fresh recording
+  if (state.tabId !== tabId) state.entries = []
+  state = { ...state, recording: true, tabId }
+  pending.clear()
+  await chrome.storage.local.set({ [STORAGE_KEY]: state })
+  return state
+}
+
+export const stopNetworkRecording = async (): Promise<NetworkRecorderState> => {
+  await loaded
+  state = { ...state, recording: false }
+  pending.clear()
+  await chrome.storage.local.set({ [STORAGE_KEY]: state })
+  return state
+}
+
+export const clearNetworkRecording = async (): Promise<NetworkRecorderState> => {
+  await loaded
+  state = { ...state, entries: [] }
+  await chrome.storage.local.set({ [STORAGE_KEY]: state })
+  return state
+}
+
+const RESOURCE_TYPES: Record<string, EndpointInfo['type']> = {
+  xmlhttprequest: 'api',
+  websocket: 'realtime',
+  ping: 'api',
+  csp_report: 'api',
+  main_frame: 'page',
+  sub_frame: 'page',
+  script: 'static',
+  stylesheet: 'static',
+  image: 'static',
+  font: 'static',
+  media: 'static'
+}
+
+/**
+ * Turn recorded traffic into endpoints with a `Network` source. The
+ * resource type reported by Chrome decides the category; `fetch()` calls
+ * show up as `xmlhttprequest`. URLs lose their query and fragment like
+ * extracted ones, with the query names kept as parameters.
+ */
+export const networkEntriesToEndpoints = (entries: NetworkEntry[]): EndpointInfo[] =>
+  entries.map(entry => {
+    const parameters = mergeParameters(parseQueryParameters(entry.url), entry.bodyParameters)
+    return {
+      url: normalizeUrl(entry.url),
+      method: entry.method,
+      type: isGraphqlEndpoint(entry.url) ? 'graphql' : RESOURCE_TYPES[entry.resourceType] || 'unknown',
+      source: 'Network',
+      status: entry.status,
+      contentType: entry.requestContentType,
+      initiator: entry.initiator,
+      ...(entry.resourceType === 'websocket' ? { protocol: 'websocket' as const } : {}),
+      tags: ['observed'],
+      ...(entry.initiator ? { foundOn: [entry.initiator] } : {}),
+      ...(parameters.length > 0 ? { parameters } : {})
+    }
+  })
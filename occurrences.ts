@@ -0,0 +1,78 @@
+import type { EndpointInfo, EndpointOccurrence } from "~background/messages/scrape-website"
+
+const CONTEXT_LINES = 2
+// Minified bundles put everything on one line, so long lines are cut around the match
+const MAX_LINE_LENGTH = 160
+const MATCH_MARGIN = 70
+const MAX_OCCURRENCES = 50
+
+const clipLine = (line: string): string =>
+  line.length > MAX_LINE_LENGTH ? `${line.slice(0, MAX_LINE_LENGTH)}…` : line
+
+/**
+ * Record where an endpoint appears: line, column and a few surrounding
+ * lines, with the span of the match within its own line of the snippet.
+ */
+export const captureOccurrence = (
+  text: string,
+  index: number,
+  length: number,
+  source: string,
+  line: number
+): EndpointOccurrence => {
+  const lineStart = text.lastIndexOf('\n', index - 1) + 1
+  const lineEndIndex = text.indexOf('\n', index)
+  const lineEnd = lineEndIndex === -1 ? text.length : lineEndIndex
+  const column = index - lineStart
+
+  const before: string[] = []
+  let cursor = lineStart
+  while (before.length < CONTEXT_LINES && cursor > 0) {
+    const start = text.lastIndexOf('\n', cursor - 2) + 1
+    before.unshift(clipLine(text.slice(start, cursor - 1)))
+    cursor = start
+  }
+
+  const after: string[] = []
+  cursor = lineEnd
+  while (after.length < CONTEXT_LINES && cursor < text.length) {
+    const end = text.indexOf('\n', cursor + 1)
+    after.push(clipLine(text.slice(cursor + 1, end === -1 ? text.length : end)))
+    cursor = end === -1 ? text.length : end
+  }
+
+  const from = Math.max(lineStart, index - MATCH_MARGIN)
+  const to = Math.min(lineEnd, index + length + MATCH_MARGIN)
+  const prefix = from > lineStart ? '…' : ''
+  const matched = `${prefix}${text.slice(from, to)}${to < lineEnd ? '…' : ''}`.replace(/\r$/, '')
+  const highlightStart = prefix.length + index - from
+
+  return {
+    source,
+    line,
+    column,
+    snippet: [...before, matched, ...after],
+    snippetLine: before.length,
+    highlight: [highlightStart, highlightStart + Math.min(length, to - index)]
+  }
+}
+
+// Occurrences of both endpoints, each place listed once and the list capped
+export const mergeOccurrences = (
+  existing: EndpointOccurrence[] = [],
+  incoming: EndpointOccurrence[] = []
+): EndpointOccurrence[] => {
+  const merged = [...existing]
+  for (const occurrence of incoming) {
+    if (merged.length >= MAX_OCCURRENCES) break
+    const seen = merged.some(o =>
+      o.source === occurrence.source && o.line === occurrence.line && o.column === occurrence.column
+    )
+    if (!seen) merged.push(occurrence)
+  }
+  return merged
+}
+
+// Endpoints from forms, specs or traffic have no snippet but still count as a place they were found
+export const occurrencesOf = (endpoint: EndpointInfo): EndpointOccurrence[] =>
+  endpoint.occurrences ?? [{ source: endpoint.source, ...(endpoint.line !== undefined ? { line: endpoint.line } : {}) }]
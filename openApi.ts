@@ -0,0 +1,339 @@
+import { parse as parseYaml } from "yaml"
+
+import type { EndpointInfo, EndpointParameter, ParameterLocation } from "~background/messages/scrape-website"
+import { isGraphqlEndpoint } from "~graphql"
+
+export interface ApiSpecFinding {
+  url: string
+  // `2.0`, `3.0.3`, `3.1.0`, ...
+  version: string
+  title?: string
+  // Swagger UI or ReDoc page the spec was found through
+  foundVia?: string
+  operationCount: number
+}
+
+export interface RequestBodySchema {
+  contentType: string
+  // JSON Schema with local `$ref`s inlined a few levels deep
+  schema: unknown
+}
+
+// Only the parts of a spec that are read; anything can be missing in a real one
+interface SpecSchema {
+  type?: string
+  example?: unknown
+  default?: unknown
+  enum?: unknown[]
+  properties?: Record<string, SpecSchema>
+}
+
+// Swagger 2 puts the schema keywords of non-body parameters on the parameter itself
+interface SpecParameter extends SpecSchema {
+  name?: string
+  in?: ParameterLocation | 'formData'
+  schema?: SpecSchema
+}
+
+interface SpecOperation {
+  parameters?: SpecParameter[]
+  consumes?: string[]
+  deprecated?: boolean
+  requestBody?: { content?: Record<string, { schema?: SpecSchema } | undefined> }
+}
+
+type SpecPathItem = Partial<Record<HttpMethod, SpecOperation>> & { parameters?: SpecParameter[] }
+
+interface SpecDocument {
+  openapi?: string
+  swagger?: string
+  info?: { title?: string }
+  paths: Record<string, SpecPathItem | undefined>
+  // Swagger 2
+  schemes?: string[]
+  host?: string
+  basePath?: string
+  consumes?: string[]
+  // OpenAPI 3
+  servers?: { url?: string, variables?: Record<string, { default?: string } | undefined> }[]
+}
+
+// Common spec locations across Springfox/springdoc, Swashbuckle, FastAPI, NestJS and friends
+const SPEC_PATHS = [
+  '/swagger.json',
+  '/swagger.yaml',
+  '/swagger.yml',
+  '/openapi.json',
+  '/openapi.yaml',
+  '/openapi.yml',
+  '/v2/api-docs',
+  '/v3/api-docs',
+  '/api-docs',
+  '/api-docs.json',
+  '/api/swagger.json',
+  '/api/openapi.json',
+  '/api/v1/swagger.json',
+  '/swagger/v1/swagger.json',
+  '/docs/openapi.json'
+]
+
+const SWAGGER_UI_PATHS = [
+  '/swagger-ui.html',
+  '/swagger-ui/index.html',
+  '/swagger/index.html',
+  '/api/docs',
+  '/docs',
+  '/redoc'
+]
+
+const HTTP_METHODS = ['get', 'put', 'post', 'delete', 'options', 'head', 'patch', 'trace'] as const
+type HttpMethod = typeof HTTP_METHODS[number]
+const MAX_REF_DEPTH = 3
+
+const fetchText = async (url: string): Promise<string | null> => {
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      mode: 'cors',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'application/json, application/yaml, text/yaml, text/html;q=0.5, */*;q=0.1'
+      }
+    })
+    return response.ok ? await response.text() : null
+  } catch (error) {
+    console.warn(`Failed to fetch ${url}`, error)
+    return null
+  }
+}
+
+/**
+ * Parse a JSON or YAML document and return it when it is an OpenAPI 3 or
+ * Swagger 2 description with a `paths` object.
+ */
+export const parseSpecDocument = (text: string): SpecDocument | null => {
+  let doc: unknown
+  try {
+    doc = JSON.parse(text)
+  } catch {
+    try {
+      doc = parseYaml(text)
+    } catch {
+      return null
+    }
+  }
+  if (!doc || typeof doc !== 'object') return null
+  const spec = doc as SpecDocument
+  if (!(spec.openapi || spec.swagger) || typeof spec.paths !== 'object' || !spec.paths) return null
+  return spec
+}
+
+const resolvePointer = (doc: SpecDocument, ref: string): unknown => {
+  if (!ref.startsWith('#/')) return undefined
+  return ref
+    .slice(2)
+    .split('/')
+    .map(part => part.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .reduce<unknown>(
+      (node, part) => (node && typeof node === 'object' ? (node as Record<string, unknown>)[part] : undefined),
+      doc
+    )
+}
+
+// Inline local `$ref`s; deeper or circular references are left as `$ref`
+const dereference = (doc: SpecDocument, value: unknown, depth = 0): unknown => {
+  if (Array.isArray(value)) return value.map(item => dereference(doc, item, depth))
+  if (!value || typeof value !== 'object') return value
+  const ref = (value as { $ref?: unknown }).$ref
+  if (typeof ref === 'string') {
+    const target = depth < MAX_REF_DEPTH ? resolvePointer(doc, ref) : undefined
+    return target === undefined ? { $ref: ref } : dereference(doc, target, depth + 1)
+  }
+  return Object.fromEntries(Object.entries(value).map(([key, item]) => [key, dereference(doc, item, depth)]))
+}
+
+const serverUrl = (doc: SpecDocument, specUrl: string): string => {
+  if (doc.swagger) {
+    const scheme = doc.schemes?.[0] || new URL(specUrl).protocol.replace(':', '')
+    const host = doc.host || new URL(specUrl).host
+    return `${scheme}://${host}${doc.basePath || ''}`
+  }
+  const server = doc.servers?.[0]
+  if (!server?.url) return new URL(specUrl).origin
+  // Server variables fall back to their defaults
+  const url = String(server.url).replace(/\{(\w+)\}/g, (placeholder: string, name: string) =>
+    server.variables?.[name]?.default ?? placeholder
+  )
+  try {
+    return new URL(url, specUrl).href
+  } catch {
+    return new URL(specUrl).origin
+  }
+}
+
+const exampleOf = (value: SpecParameter | undefined): string | undefined => {
+  const example = value?.example ?? value?.schema?.example ?? value?.default ?? value?.schema?.default ?? value?.enum?.[0]
+  if (example === undefined || example === null) return undefined
+  return typeof example === 'object' ? JSON.stringify(example) : String(example)
+}
+
+const bodyParameters = (schema: SpecSchema | undefined): EndpointParameter[] =>
+  Object.entries(schema?.properties || {}).map(([name, property]) => ({
+    name,
+    location: 'body' as const,
+    example: exampleOf(property)
+  }))
+
+const joinPath = (base: string, path: string): string =>
+  `${base.replace(/\/+$/, '')}/${path.replace(/^\/+/, '')}`
+
+/**
+ * Turn every operation of a spec into an endpoint with its method, path,
+ * query, header and cookie parameters and, when present, the request body
+ * schema (Swagger 2 `in: body`/`formData` or OpenAPI 3 `requestBody`).
+ */
+export const specToEndpoints = (
+  doc: SpecDocument,
+  specUrl: string,
+  source = `OpenAPI: ${specUrl}`
+): EndpointInfo[] => {
+  const base = serverUrl(doc, specUrl)
+  const endpoints: EndpointInfo[] = []
+
+  for (const [path, rawItem] of Object.entries(doc.paths)) {
+    // Inlined references take the shape of what they point to
+    const item = dereference(doc, rawItem) as SpecPathItem | undefined
+    for (const method of HTTP_METHODS) {
+      const operation = item?.[method]
+      if (!operation) continue
+
+      const parameters: EndpointParameter[] = []
+      let requestBody: RequestBodySchema | undefined
+      const consumes: string | undefined = operation.consumes?.[0] || doc.consumes?.[0]
+      // Operation-level parameters override path-level ones with the same name and location
+      const declared = [...(operation.parameters || []), ...(item?.parameters || [])]
+      for (const parameter of declared) {
+        if (!parameter?.name || !parameter.in) continue
+        if (parameter.in === 'body') {
+          requestBody = { contentType: consumes || 'application/json', schema: parameter.schema }
+          parameters.push(...bodyParameters(parameter.schema))
+          continue
+        }
+        const location: ParameterLocation = parameter.in === 'formData' ? 'body' : parameter.in
+        if (parameters.some(p => p.name === parameter.name && p.location === location)) continue
+        parameters.push({ name: parameter.name, location, example: exampleOf(parameter) })
+      }
+
+      // Swagger 2 form fields have no schema of their own; describe them as one
+      const formFields = declared.filter(parameter => parameter?.in === 'formData')
+      if (!requestBody && formFields.length > 0) {
+        requestBody = {
+          contentType: consumes || 'application/x-www-form-urlencoded',
+          schema: {
+            type: 'object',
+            properties: Object.fromEntries(formFields.map(field => [field.name, { type: field.type || 'string' }]))
+          }
+        }
+      }
+
+      const content = operation.requestBody?.content
+      if (content) {
+        const [contentType, media] = Object.entries(content)[0] || []
+        if (contentType) {
+          requestBody = { contentType, schema: media?.schema }
+          parameters.push(...bodyParameters(media?.schema))
+        }
+      }
+
+      const url = joinPath(base, path)
+      const tags = ['openapi']
+      if (operation.deprecated) tags.push('deprecated')
+
+      endpoints.push({
+        url,
+        method: method.toUpperCase(),
+        type: isGraphqlEndpoint(url) ? 'graphql' : 'api',
+        source,
+        foundOn: [specUrl],
+        tags,
+        ...(parameters.length > 0 ? { parameters } : {}),
+        ...(requestBody ? { requestBody } : {})
+      })
+    }
+  }
+
+  return endpoints
+}
+
+export const countOperations = (doc: SpecDocument): number =>
+  Object.values(doc.paths).reduce(
+    (count, item) => count + HTTP_METHODS.filter(method => item?.[method]).length,
+    0
+  )
+
+/**
+ * Spec URLs a Swagger UI or ReDoc page loads: the `url`/`urls` options of
+ * `SwaggerUIBundle` (inline or in `swagger-initializer.js`) and ReDoc's
+ * `spec-url`.
+ */
+const findSpecUrlsInUi = async (html: string, pageUrl: string): Promise<string[]> => {
+  let config = html
+  const initializer = html.match(/<script[^>]*src=["']([^"']*swagger-initializer\.js)["']/i)
+  if (initializer) {
+    config += (await fetchText(new URL(initializer[1], pageUrl).href)) || ''
+  }
+
+  const urls = new Set<string>()
+  for (const match of Array.from(config.matchAll(/\burl\s*:\s*["']([^"']+)["']/g))) {
+    if (/\.(json|ya?ml)(\?|$)|api-docs|openapi|swagger/i.test(match[1])) urls.add(match[1])
+  }
+  for (const match of Array.from(config.matchAll(/spec-url=["']([^"']+)["']/gi))) urls.add(match[1])
+
+  return Array.from(urls).map(url => new URL(url, pageUrl).href)
+}
+
+/**
+ * Probe the usual spec locations and Swagger UI pages of a site, plus any
+ * extra candidate URLs, and parse every OpenAPI or Swagger description found.
+ */
+export const discoverApiSpecs = async (
+  pageUrl: string,
+  extraCandidates: string[] = []
+): Promise<{ specs: ApiSpecFinding[], endpoints: EndpointInfo[] }> => {
+  const origin = new URL(pageUrl).origin
+  const specs: ApiSpecFinding[] = []
+  const endpoints: EndpointInfo[] = []
+  const tried = new Set<string>()
+  // The same document is often served at several of the probed paths
+  const seenDocuments = new Set<string>()
+
+  const trySpec = async (url: string, foundVia?: string) => {
+    if (tried.has(url)) return
+    tried.add(url)
+    const text = await fetchText(url)
+    if (!text || seenDocuments.has(text)) return
+    const doc = parseSpecDocument(text)
+    if (!doc) return
+    seenDocuments.add(text)
+    specs.push({
+      url,
+      version: String(doc.openapi || doc.swagger),
+      ...(doc.info?.title ? { title: String(doc.info.title) } : {}),
+      ...(foundVia ? { foundVia } : {}),
+      operationCount: countOperations(doc)
+    })
+    endpoints.push(...specToEndpoints(doc, url))
+  }
+
+  for (const path of SPEC_PATHS) await trySpec(`${origin}${path}`)
+  for (const url of extraCandidates) await trySpec(url)
+
+  for (const path of SWAGGER_UI_PATHS) {
+    const uiUrl = `${origin}${path}`
+    const html = await fetchText(uiUrl)
+    if (!html || !/swagger-ui|redoc|SwaggerUIBundle/i.test(html)) continue
+    for (const specUrl of await findSpecUrlsInUi(html, uiUrl)) await trySpec(specUrl, uiUrl)
+  }
+
+  return { specs, endpoints }
+}
@@ -0,0 +1,450 @@
+import { useState, useEffect } from "react"
+
+import {
+  loadEndpointClasses,
+  saveEndpointClasses,
+  validateEndpointClass,
+  type EndpointClass
+} from "~endpointClassifier"
+import {
+  loadExtractionRules,
+  matchRules,
+  saveExtractionRules,
+  validateRule,
+  type ExtractionRule,
+  type RuleMatch
+} from "~patternRegistry"
+import {
+  BUNDLED_WORDLISTS,
+  deleteCustomWordlist,
+  loadCustomWordlists,
+  saveCustomWordlist,
+  type Wordlist
+} from "~wordlists"
+
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+
+const EMPTY_DRAFT = { name: '', pattern: '', flags: 'gi', group: 1, method: '', type: '' }
+const EMPTY_CLASS_DRAFT = { id: '', label: '', color: '#0d6efd', urlPattern: '', parameterPattern: '' }
+
+const inputStyle = {
+  padding: 6,
+  border: '1px solid #ddd',
+  borderRadius: 4,
+  fontSize: 13
+}
+
+const buttonStyle = (color: string) => ({
+  padding: '6px 12px',
+  backgroundColor: color,
+  color: 'white',
+  border: 'none',
+  borderRadius: 4,
+  cursor: 'pointer',
+  fontSize: 13
+})
+
+const cardStyle = {
+  background: 'white',
+  border: '1px solid #e9edf5',
+  borderRadius: 8,
+  padding: 12,
+  marginBottom: 16,
+  boxShadow: '0 2px 6px rgba(0,0,0,0.04)'
+}
+
+function OptionsPage() {
+  const [rules, setRules] = useState<ExtractionRule[]>([])
+  const [draft, setDraft] = useState(EMPTY_DRAFT)
+  const [draftError, setDraftError] = useState("")
+  const [sample, setSample] = useState("fetch('/api/users?id=1')\n$.post('/api/login', data)\nxhr.open('DELETE', '/v1/items/42')")
+  const [testRuleId, setTestRuleId] = useState<string>('draft')
+  const [saved, setSaved] = useState(false)
+  const [classes, setClasses] = useState<EndpointClass[]>([])
+  const [classDraft, setClassDraft] = useState(EMPTY_CLASS_DRAFT)
+  const [classError, setClassError] = useState("")
+  const [customWordlists, setCustomWordlists] = useState<Wordlist[]>([])
+  const [wordlistName, setWordlistName] = useState("")
+  const [wordlistError, setWordlistError] = useState("")
+
+  useEffect(() => {
+    loadExtractionRules().then(setRules)
+    loadEndpointClasses().then(setClasses)
+    loadCustomWordlists().then(setCustomWordlists)
+  }, [])
+
+  const flashSaved = () => {
+    setSaved(true)
+    setTimeout(() => setSaved(false), 1500)
+  }
+
+  const persistClasses = async (next: EndpointClass[]) => {
+    setClasses(next)
+    await saveEndpointClasses(next)
+    flashSaved()
+  }
+
+  const addClass = () => {
+    const endpointClass: EndpointClass = {
+      id: classDraft.id.trim(),
+      label: classDraft.label.trim(),
+      color: classDraft.color,
+      ...(classDraft.urlPattern ? { urlPattern: classDraft.urlPattern } : {}),
+      ...(classDraft.parameterPattern ? { parameterPattern: classDraft.parameterPattern } : {}),
+      enabled: true
+    }
+    const problem = validateEndpointClass(endpointClass, classes)
+    if (problem) {
+      setClassError(problem)
+      return
+    }
+    setClassError("")
+    setClassDraft(EMPTY_CLASS_DRAFT)
+    persistClasses([...classes, endpointClass])
+  }
+
+  // The list is named after the file unless a name was typed
+  const importWordlist = async (file: File) => {
+    try {
+      await saveCustomWordlist(wordlistName.trim() || file.name.replace(/\.[^.]+$/, ''), await file.text())
+      setWordlistError("")
+      setWordlistName("")
+      setCustomWordlists(await loadCustomWordlists())
+      flashSaved()
+    } catch (error) {
+      setWordlistError(error instanceof Error ? error.message : 'Import failed')
+    }
+  }
+
+  const removeWordlist = async (id: string) => {
+    await deleteCustomWordlist(id)
+    setCustomWordlists(await loadCustomWordlists())
+    flashSaved()
+  }
+
+  const persist = async (next: ExtractionRule[]) => {
+    setRules(next)
+    await saveExtractionRules(next)
+    flashSaved()
+  }
+
+  const toggleRule = (id: string) => {
+    persist(rules.map(rule => rule.id === id ? { ...rule, enabled: !rule.enabled } : rule))
+  }
+
+  const deleteRule = (id: string) => {
+    persist(rules.filter(rule => rule.id !== id))
+  }
+
+  const draftRule = (): ExtractionRule => ({
+    id: `custom-${Date.now().toString(36)}`,
+    name: draft.name.trim(),
+    pattern: draft.pattern,
+    flags: draft.flags,
+    group: Number(draft.group),
+    ...(draft.method ? { method: draft.method } : {}),
+    ...(draft.type ? { type: draft.type } : {}),
+    enabled: true
+  })
+
+  const addRule = () => {
+    const rule = draftRule()
+    const problem = validateRule(rule)
+    if (problem) {
+      setDraftError(problem)
+      return
+    }
+    setDraftError("")
+    setDraft(EMPTY_DRAFT)
+    persist([...rules, rule])
+  }
+
+  // Test the draft, a single saved rule, or every enabled rule against the sample
+  const runTest = (): { matches: RuleMatch[], error?: string } => {
+    if (testRuleId === 'draft') {
+      const rule = { ...draftRule(), name: draft.name || 'Draft' }
+      const problem = validateRule(rule)
+      return problem ? { matches: [], error: problem } : { matches: matchRules(sample, [rule]) }
+    }
+    if (testRuleId === 'all') return { matches: matchRules(sample, rules) }
+    return { matches: matchRules(sample, rules.filter(rule => rule.id === testRuleId).map(rule => ({ ...rule, enabled: true }))) }
+  }
+
+  const test = runTest()
+  const customRules = rules.filter(rule => !rule.builtIn)
+  const builtInRules = rules.filter(rule => rule.builtIn)
+
+  const renderRule = (rule: ExtractionRule) => (
+    <div key={rule.id} style={{
+      display: 'flex',
+      alignItems: 'center',
+      gap: 8,
+      padding: '6px 0',
+      borderBottom: '1px solid #f0f0f0',
+      fontSize: 12,
+      opacity: rule.enabled ? 1 : 0.5
+    }}>
+      <input type="checkbox" checked={rule.enabled} onChange={() => toggleRule(rule.id)} />
+      <div style={{ width: 180, fontWeight: 600, color: '#333' }}>{rule.name}</div>
+      <code style={{ flex: 1, color: '#555', wordBreak: 'break-all' }}>/{rule.pattern}/{rule.flags}</code>
+      <div style={{ width: 60, color: '#666' }}>group {rule.group}</div>
+      <div style={{ width: 60, color: '#666' }}>{rule.method || 'auto'}</div>
+      <div style={{ width: 70, color: '#666' }}>{rule.type || 'auto'}</div>
+      {!rule.builtIn && (
+        <button onClick={() => deleteRule(rule.id)} style={{ ...buttonStyle('#dc3545'), padding: '2px 8px', fontSize: 11 }}>
+          Delete
+        </button>
+      )}
+    </div>
+  )
+
+  return (
+    <div style={{
+      maxWidth: 960,
+      margin: '0 auto',
+      padding: 24,
+      fontFamily: '-apple-system, BlinkMacSystemFont, "Segoe UI", Roboto, sans-serif',
+      background: 'linear-gradient(135deg, #eff3ff 0%, #f8f9ff 100%)',
+      minHeight: '100vh'
+    }}>
+      <h2 style={{ margin: '0 0 4px 0', color: '#222' }}>Extraction Rules</h2>
+      <div style={{ color: '#666', fontSize: 12, marginBottom: 16 }}>
+        Regular expressions used to find endpoints in pages and scripts, both in background scans and in the open tab.
+        {saved && <span style={{ color: '#28a745', marginLeft: 8 }}>Saved</span>}
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ color: '#333', fontWeight: 600, marginBottom: 8 }}>Add a rule</div>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            placeholder="Name"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            style={{ ...inputStyle, width: 160 }}
+          />
+          <input
+            placeholder={'Pattern, e.g. apiUrl\\(["\']([^"\']+)'}
+            value={draft.pattern}
+            onChange={(e) => setDraft({ ...draft, pattern: e.target.value })}
+            style={{ ...inputStyle, flex: 1, minWidth: 240, fontFamily: 'monospace' }}
+          />
+          <input
+            title="Flags"
+            value={draft.flags}
+            onChange={(e) => setDraft({ ...draft, flags: e.target.value })}
+            style={{ ...inputStyle, width: 40 }}
+          />
+          <label style={{ fontSize: 12, color: '#333' }}>
+            Group{' '}
+            <input
+              type="number"
+              min={0}
+              value={draft.group}
+              onChange={(e) => setDraft({ ...draft, group: Number(e.target.value) })}
+              style={{ ...inputStyle, width: 50 }}
+            />
+          </label>
+          <select value={draft.method} onChange={(e) => setDraft({ ...draft, method: e.target.value })} style={inputStyle}>
+            <option value="">Method: auto</option>
+            {METHODS.map(method => <option key={method} value={method}>{method}</option>)}
+          </select>
+          <select value={draft.type} onChange={(e) => setDraft({ ...draft, type: e.target.value })} style={inputStyle}>
+            <option value="">Type: auto</option>
+            {classes.map(c => <option key={c.id} value={c.id}>{c.label}</option>)}
+          </select>
+          <button onClick={addRule} style={buttonStyle('#007bff')}>Add</button>
+        </div>
+        {draftError && <div style={{ color: '#dc3545', fontSize: 12, marginTop: 6 }}>{draftError}</div>}
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ color: '#333', fontWeight: 600, marginBottom: 8 }}>Test</div>
+        <div style={{ display: 'flex', gap: 8, marginBottom: 8 }}>
+          <select value={testRuleId} onChange={(e) => setTestRuleId(e.target.value)} style={inputStyle}>
+            <option value="draft">Rule being added</option>
+            <option value="all">All enabled rules</option>
+            {rules.map(rule => <option key={rule.id} value={rule.id}>{rule.name}</option>)}
+          </select>
+        </div>
+        <textarea
+          value={sample}
+          onChange={(e) => setSample(e.target.value)}
+          rows={6}
+          style={{ ...inputStyle, width: '100%', boxSizing: 'border-box', fontFamily: 'monospace' }}
+        />
+        <div style={{ fontSize: 12, marginTop: 6 }}>
+          {test.error ? (
+            <span style={{ color: '#dc3545' }}>{test.error}</span>
+          ) : test.matches.length === 0 ? (
+            <span style={{ color: '#666' }}>No matches</span>
+          ) : (
+            test.matches.map((match, index) => (
+              <div key={index} style={{ fontFamily: 'monospace', color: '#333', padding: '2px 0' }}>
+                {match.method && <span style={{ color: '#007bff', marginRight: 6 }}>{match.method}</span>}
+                {match.url}
+                {match.type && <span style={{ color: '#666', marginLeft: 6 }}>[{match.type}]</span>}
+                <span style={{ color: '#999', marginLeft: 6 }}>({rules.find(rule => rule.id === match.ruleId)?.name || 'Draft'})</span>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ color: '#333', fontWeight: 600, marginBottom: 8 }}>Custom rules ({customRules.length})</div>
+        {customRules.length === 0
+          ? <div style={{ color: '#666', fontSize: 12 }}>No custom rules yet</div>
+          : customRules.map(renderRule)}
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ color: '#333', fontWeight: 600, marginBottom: 8 }}>Built-in rules ({builtInRules.length})</div>
+        {builtInRules.map(renderRule)}
+      </div>
+
+      <h2 style={{ margin: '24px 0 4px 0', color: '#222' }}>Endpoint Classes</h2>
+      <div style={{ color: '#666', fontSize: 12, marginBottom: 16 }}>
+        Classes tag endpoints whose URL or parameter names match. The first match in this order becomes an endpoint&apos;s type.
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ color: '#333', fontWeight: 600, marginBottom: 8 }}>Add a class</div>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            placeholder="id, e.g. payments"
+            value={classDraft.id}
+            onChange={(e) => setClassDraft({ ...classDraft, id: e.target.value })}
+            style={{ ...inputStyle, width: 120 }}
+          />
+          <input
+            placeholder="Label"
+            value={classDraft.label}
+            onChange={(e) => setClassDraft({ ...classDraft, label: e.target.value })}
+            style={{ ...inputStyle, width: 120 }}
+          />
+          <input
+            type="color"
+            title="Badge color"
+            value={classDraft.color}
+            onChange={(e) => setClassDraft({ ...classDraft, color: e.target.value })}
+          />
+          <input
+            placeholder="URL pattern, e.g. /(pay|checkout|billing)/"
+            value={classDraft.urlPattern}
+            onChange={(e) => setClassDraft({ ...classDraft, urlPattern: e.target.value })}
+            style={{ ...inputStyle, flex: 1, minWidth: 200, fontFamily: 'monospace' }}
+          />
+          <input
+            placeholder="Parameter pattern, e.g. ^card"
+            value={classDraft.parameterPattern}
+            onChange={(e) => setClassDraft({ ...classDraft, parameterPattern: e.target.value })}
+            style={{ ...inputStyle, width: 180, fontFamily: 'monospace' }}
+          />
+          <button onClick={addClass} style={buttonStyle('#007bff')}>Add</button>
+        </div>
+        {classError && <div style={{ color: '#dc3545', fontSize: 12, marginTop: 6 }}>{classError}</div>}
+      </div>
+
+      <div style={cardStyle}>
+        {classes.map(endpointClass => (
+          <div key={endpointClass.id} style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '6px 0',
+            borderBottom: '1px solid #f0f0f0',
+            fontSize: 12,
+            opacity: endpointClass.enabled ? 1 : 0.5
+          }}>
+            <input
+              type="checkbox"
+              checked={endpointClass.enabled}
+              onChange={() => persistClasses(classes.map(c => c.id === endpointClass.id ? { ...c, enabled: !c.enabled } : c))}
+            />
+            <span style={{
+              padding: '2px 6px',
+              backgroundColor: endpointClass.color,
+              color: 'white',
+              borderRadius: 3,
+              fontSize: 11,
+              width: 90,
+              textAlign: 'center'
+            }}>
+              {endpointClass.id.toUpperCase()}
+            </span>
+            <div style={{ width: 110, fontWeight: 600, color: '#333' }}>{endpointClass.label}</div>
+            <code style={{ flex: 1, color: '#555', wordBreak: 'break-all' }}>
+              {[endpointClass.urlPattern && `URL /${endpointClass.urlPattern}/i`, endpointClass.parameterPattern && `param /${endpointClass.parameterPattern}/i`]
+                .filter(Boolean)
+                .join('  ')}
+            </code>
+            {!endpointClass.builtIn && (
+              <button
+                onClick={() => persistClasses(classes.filter(c => c.id !== endpointClass.id))}
+                style={{ ...buttonStyle('#dc3545'), padding: '2px 8px', fontSize: 11 }}
+              >
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <h2 style={{ margin: '24px 0 4px 0', color: '#222' }}>LFI Wordlists</h2>
+      <div style={{ color: '#666', fontSize: 12, marginBottom: 16 }}>
+        Payload lists for the LFI scanner, one payload per line; blank lines and lines starting with # are ignored. Choose which lists a scan uses in the popup.
+      </div>
+
+      <div style={cardStyle}>
+        <div style={{ color: '#333', fontWeight: 600, marginBottom: 8 }}>Import a list</div>
+        <div style={{ display: 'flex', gap: 8, flexWrap: 'wrap', alignItems: 'center' }}>
+          <input
+            placeholder="Name (defaults to the file name)"
+            value={wordlistName}
+            onChange={(e) => setWordlistName(e.target.value)}
+            style={{ ...inputStyle, width: 240 }}
+          />
+          <input
+            type="file"
+            accept=".txt,.lst,text/plain"
+            onChange={(e) => {
+              const file = e.target.files?.[0]
+              if (file) importWordlist(file)
+              e.target.value = ''
+            }}
+            style={{ fontSize: 13 }}
+          />
+        </div>
+        <div style={{ color: '#666', fontSize: 11, marginTop: 6 }}>Importing under an existing name replaces that list.</div>
+        {wordlistError && <div style={{ color: '#dc3545', fontSize: 12, marginTop: 6 }}>{wordlistError}</div>}
+      </div>
+
+      <div style={cardStyle}>
+        {[...BUNDLED_WORDLISTS, ...customWordlists].map(list => (
+          <div key={list.id} style={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 8,
+            padding: '6px 0',
+            borderBottom: '1px solid #f0f0f0',
+            fontSize: 12
+          }}>
+            <div style={{ width: 180, fontWeight: 600, color: '#333' }}>{list.name}</div>
+            <div style={{ flex: 1, color: '#555' }}>{list.description}</div>
+            <div style={{ width: 90, color: '#666' }}>{list.payloads.length} payloads</div>
+            <div style={{ width: 130, color: '#666' }}>
+              {list.builtIn ? 'Bundled' : `Imported ${new Date(list.createdAt || 0).toLocaleDateString()}`}
+            </div>
+            {!list.builtIn && (
+              <button onClick={() => removeWordlist(list.id)} style={{ ...buttonStyle('#dc3545'), padding: '2px 8px', fontSize: 11 }}>
+                Delete
+              </button>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  )
+}
+
+export default OptionsPage
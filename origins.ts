@@ -0,0 +1,92 @@
+import { parse } from "tldts"
+
+import type { EndpointInfo } from "~background/messages/scrape-website"
+
+// How an endpoint's host relates to the scanned page's host
+export type OriginRelation = 'first-party' | 'same-org' | 'third-party'
+
+export interface HostInventoryEntry {
+  host: string
+  // Domain registered under the public suffix, e.g. `example.co.uk`
+  registrableDomain: string
+  relation: OriginRelation
+  endpointCount: number
+}
+
+export interface ResolvedOrigin {
+  host: string
+  registrableDomain: string
+  relation: OriginRelation
+}
+
+// Private suffixes (github.io, herokuapp.com, ...) count as separate registrations
+const PARSE_OPTIONS = { allowPrivateDomains: true }
+
+const registrableDomainOf = (hostname: string): string =>
+  parse(hostname, PARSE_OPTIONS).domain || hostname
+
+/**
+ * Resolve a (possibly relative) endpoint URL against the scanned page and
+ * compare its host with the page's: the same host is first-party, another
+ * host under the same registrable domain is same-org, anything else is
+ * third-party. Returns null for URLs that cannot be resolved.
+ */
+export const resolveOrigin = (url: string, pageUrl: string): ResolvedOrigin | null => {
+  let resolved: URL
+  let page: URL
+  try {
+    page = new URL(pageUrl)
+    resolved = new URL(url, page)
+  } catch {
+    return null
+  }
+  if (!/^(?:https?|wss?):$/.test(resolved.protocol) || !resolved.hostname) return null
+
+  const host = resolved.hostname.toLowerCase()
+  const pageHost = page.hostname.toLowerCase()
+  const registrableDomain = registrableDomainOf(host)
+  const relation: OriginRelation = host === pageHost
+    ? 'first-party'
+    : registrableDomain === registrableDomainOf(pageHost) ? 'same-org' : 'third-party'
+  return { host, registrableDomain, relation }
+}
+
+// Set `host` and `party` on every endpoint that resolves against the page
+export const annotateOrigins = (endpoints: EndpointInfo[], pageUrl: string): EndpointInfo[] => {
+  for (const endpoint of endpoints) {
+    const origin = resolveOrigin(endpoint.url, pageUrl)
+    if (!origin) continue
+    endpoint.host = origin.host
+    endpoint.party = origin.relation
+  }
+  return endpoints
+}
+
+const RELATION_ORDER: OriginRelation[] = ['first-party', 'same-org', 'third-party']
+
+/**
+ * Every host seen in the results with its registrable domain, relation
+ * to the scanned page and number of endpoints, first-party hosts first.
+ */
+export const buildHostInventory = (endpoints: EndpointInfo[], pageUrl: string): HostInventoryEntry[] => {
+  const hosts = new Map<string, HostInventoryEntry>()
+  const add = (origin: ResolvedOrigin | null, count: number) => {
+    if (!origin) return
+    const entry = hosts.get(origin.host)
+    if (entry) {
+      entry.endpointCount += count
+    } else {
+      hosts.set(origin.host, { ...origin, endpointCount: count })
+    }
+  }
+
+  // The scanned host is listed even when every endpoint is relative
+  add(resolveOrigin(pageUrl, pageUrl), 0)
+  for (const endpoint of endpoints) add(resolveOrigin(endpoint.url, pageUrl), 1)
+
+  return Array.from(hosts.values()).sort((a, b) =>
+    RELATION_ORDER.indexOf(a.relation) - RELATION_ORDER.indexOf(b.relation) ||
+    a.registrableDomain.localeCompare(b.registrableDomain) ||
+    b.endpointCount - a.endpointCount
+  )
+}
@@ -0,0 +1,97 @@
+import type {
+  EndpointInfo,
+  EndpointParameter,
+  ParameterInventoryEntry
+} from "~background/messages/scrape-website"
+
+const MAX_EXAMPLES = 5
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value.replace(/\+/g, ' '))
+  } catch {
+    return value
+  }
+}
+
+/**
+ * Read the query string of a raw (possibly relative or templated) URL into
+ * parameters. Names that could not be real parameter names are dropped.
+ */
+export const parseQueryParameters = (rawUrl: string): EndpointParameter[] => {
+  const query = rawUrl.split('#')[0].split('?').slice(1).join('?')
+  if (!query) return []
+
+  const parameters: EndpointParameter[] = []
+  for (const pair of query.split(/&(?:amp;)?/)) {
+    const [rawName, ...rest] = pair.split('=')
+    const name = safeDecode(rawName).trim()
+    if (!name || !/^[\w.\-[\]{}$:]+$/.test(name)) continue
+    if (parameters.some(p => p.name === name)) continue
+    parameters.push({ name, location: 'query', example: rest.length > 0 ? safeDecode(rest.join('=')) : undefined })
+  }
+  return parameters
+}
+
+// Union of two parameter lists, keeping the first example seen for each name
+export const mergeParameters = (
+  existing: EndpointParameter[] = [],
+  incoming: EndpointParameter[] = []
+): EndpointParameter[] => {
+  const merged = [...existing]
+  for (const parameter of incoming) {
+    const match = merged.find(p => p.name === parameter.name && p.location === parameter.location)
+    if (!match) {
+      merged.push({ ...parameter })
+    } else if (match.example === undefined && parameter.example !== undefined) {
+      match.example = parameter.example
+    }
+  }
+  return merged
+}
+
+/**
+ * Group every parameter occurrence by endpoint, name and location, keeping
+ * the distinct example values and the sources they were seen in.
+ */
+export const buildParameterInventory = (endpoints: EndpointInfo[]): ParameterInventoryEntry[] => {
+  const inventory = new Map<string, ParameterInventoryEntry>()
+
+  for (const endpoint of endpoints) {
+    for (const parameter of endpoint.parameters || []) {
+      const key = `${endpoint.url}\u0000${parameter.location}\u0000${parameter.name}`
+      let entry = inventory.get(key)
+      if (!entry) {
+        entry = { endpoint: endpoint.url, name: parameter.name, location: parameter.location, examples: [], sources: [] }
+        inventory.set(key, entry)
+      }
+      if (parameter.example !== undefined && parameter.example !== '' &&
+          !entry.examples.includes(parameter.example) && entry.examples.length < MAX_EXAMPLES) {
+        entry.examples.push(parameter.example)
+      }
+      if (!entry.sources.includes(endpoint.source)) entry.sources.push(endpoint.source)
+    }
+  }
+
+  return Array.from(inventory.values())
+}
+
+/**
+ * Turn an endpoint and its known query parameters into an absolute URL the
+ * LFI scanner can test, filling each parameter with its first example.
+ */
+export const buildLfiTarget = (
+  endpoint: string,
+  parameters: EndpointParameter[],
+  baseUrl: string
+): string | null => {
+  try {
+    const target = new URL(endpoint, baseUrl)
+    for (const parameter of parameters.filter(p => p.location === 'query')) {
+      target.searchParams.set(parameter.name, parameter.example ?? '')
+    }
+    return target.href
+  } catch {
+    return null
+  }
+}
@@ -0,0 +1,172 @@
+import type { EndpointInfo } from "~background/messages/scrape-website"
+
+export interface ExtractionRule {
+  id: string
+  name: string
+  // Regular expression source, without slashes
+  pattern: string
+  flags: string
+  // Capture group holding the URL (0 = whole match)
+  group: number
+  // Fixed method; otherwise a GET/POST/PUT/DELETE in the match is used
+  method?: string
+  // Fixed category; otherwise the extractor categorizes the URL
+  type?: EndpointInfo['type']
+  enabled: boolean
+  builtIn?: boolean
+}
+
+export interface RuleMatch {
+  url: string
+  method?: string
+  type?: EndpointInfo['type']
+  // Position and length of the captured URL text
+  index: number
+  length: number
+  ruleId: string
+}
+
+const STORAGE_KEY = 'extractionRules'
+
+interface StoredRules {
+  custom: ExtractionRule[]
+  disabledBuiltIns: string[]
+}
+
+const builtIn = (id: string, name: string, pattern: RegExp, group = 0, method?: string): ExtractionRule => ({
+  id,
+  name,
+  pattern: pattern.source,
+  flags: pattern.flags,
+  group,
+  ...(method ? { method } : {}),
+  enabled: true,
+  builtIn: true
+})
+
+export const BUILT_IN_RULES: ExtractionRule[] = [
+  // REST API patterns
+  builtIn('api-path', 'API path', /["'](\/api\/[^"']*)["']/gi, 1),
+  builtIn('versioned-path', 'Versioned path', /["'](\/v\d+\/[^"']*)["']/gi, 1),
+  builtIn('two-segment-path', 'Two-segment path', /["'](\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]+)["']/gi, 1),
+
+  // Common endpoint patterns
+  builtIn('segment-path', 'Path with trailing segment', /["'](\/[a-zA-Z0-9_-]+\/[a-zA-Z0-9_-]*)["']/gi, 1),
+  builtIn('json-file', 'JSON file', /["'](\/[a-zA-Z0-9_-]+\.json)["']/gi, 1),
+  builtIn('xml-file', 'XML file', /["'](\/[a-zA-Z0-9_-]+\.xml)["']/gi, 1),
+  builtIn('graphql-path', 'GraphQL path', /["'](\/(?:graphql|gql))["']/gi, 1),
+
+  // URL patterns
+  builtIn('bare-url', 'Absolute URL', /https?:\/\/[^\s"']+/gi),
+  builtIn('quoted-url', 'Quoted absolute URL', /["'](https?:\/\/[^"']*)["']/gi, 1),
+
+  // Fetch/axios patterns
+  builtIn('fetch-call', 'fetch() call', /fetch\s*\(\s*["']([^"']+)["']/gi, 1),
+  builtIn('axios-call', 'axios call', /axios\.[a-z]+\s*\(\s*["']([^"']+)["']/gi, 1),
+  builtIn('get-call', '.get() call', /\.get\s*\(\s*["']([^"']+)["']/gi, 1, 'GET'),
+  builtIn('post-call', '.post() call', /\.post\s*\(\s*["']([^"']+)["']/gi, 1, 'POST'),
+  builtIn('put-call', '.put() call', /\.put\s*\(\s*["']([^"']+)["']/gi, 1, 'PUT'),
+  builtIn('delete-call', '.delete() call', /\.delete\s*\(\s*["']([^"']+)["']/gi, 1, 'DELETE'),
+
+  // jQuery patterns
+  builtIn('jquery-ajax', 'jQuery $.get/$.post/$.ajax', /\$\.(get|post|ajax)\s*\(\s*["']([^"']+)["']/gi, 2),
+
+  // XMLHttpRequest patterns
+  builtIn('xhr-open', 'XMLHttpRequest open()', /open\s*\(\s*["'](GET|POST|PUT|DELETE)["']\s*,\s*["']([^"']+)["']/gi, 2)
+]
+
+/**
+ * Compile a rule, always with the `g` flag so every match is visited.
+ * Throws a SyntaxError for invalid patterns or flags.
+ */
+export const compileRule = (rule: Pick<ExtractionRule, 'pattern' | 'flags'>): RegExp => {
+  const flags = rule.flags.includes('g') ? rule.flags : `${rule.flags}g`
+  return new RegExp(rule.pattern, flags)
+}
+
+// Problems that would keep a rule from ever producing a URL, or null when it is usable
+export const validateRule = (rule: Pick<ExtractionRule, 'name' | 'pattern' | 'flags' | 'group'>): string | null => {
+  if (!rule.name.trim()) return 'Name is required'
+  if (!rule.pattern) return 'Pattern is required'
+  let regex: RegExp
+  try {
+    regex = compileRule(rule)
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern'
+  }
+  // An alternation with one empty branch reports the number of groups through a match on ''
+  const groups = new RegExp(`${regex.source}|`, regex.flags.replace('g', '')).exec('').length - 1
+  if (!Number.isInteger(rule.group) || rule.group < 0 || rule.group > groups) {
+    return `Pattern has ${groups} capture group${groups === 1 ? '' : 's'}; group ${rule.group} does not exist`
+  }
+  return null
+}
+
+/**
+ * Built-in rules with the user's enable/disable choices applied, followed
+ * by the user's own rules.
+ */
+export const loadExtractionRules = async (): Promise<ExtractionRule[]> => {
+  let stored: Partial<StoredRules> = {}
+  try {
+    stored = (await chrome.storage.local.get(STORAGE_KEY))[STORAGE_KEY] || {}
+  } catch (error) {
+    console.warn('Failed to load extraction rules, using built-ins', error)
+  }
+  const disabled = new Set(stored.disabledBuiltIns || [])
+  return [
+    ...BUILT_IN_RULES.map(rule => ({ ...rule, enabled: !disabled.has(rule.id) })),
+    ...(stored.custom || [])
+  ]
+}
+
+export const saveExtractionRules = async (rules: ExtractionRule[]): Promise<void> => {
+  const stored: StoredRules = {
+    custom: rules.filter(rule => !rule.builtIn),
+    disabledBuiltIns: rules.filter(rule => rule.builtIn && !rule.enabled).map(rule => rule.id)
+  }
+  await chrome.storage.local.set({ [STORAGE_KEY]: stored })
+}
+
+/**
+ * Run every enabled rule over the text. Rules that fail to compile are
+ * skipped so one broken custom rule cannot stop a scan.
+ */
+export const matchRules = (text: string, rules: ExtractionRule[]): RuleMatch[] => {
+  const matches: RuleMatch[] = []
+  for (const rule of rules) {
+    if (!rule.enabled) continue
+    let regex: RegExp
+    try {
+      regex = compileRule(rule)
+    } catch {
+      continue
+    }
+
+    for (const match of Array.from(text.matchAll(regex))) {
+      const captured = match[rule.group] || ''
+      const url = captured.replace(/["']/g, '').trim()
+      if (!url) continue
+
+      // Extract HTTP method if available
+      let method = rule.method
+      if (!method) {
+        if (match[0].includes('GET')) method = 'GET'
+        else if (match[0].includes('POST')) method = 'POST'
+        else if (match[0].includes('PUT')) method = 'PUT'
+        else if (match[0].includes('DELETE')) method = 'DELETE'
+      }
+
+      matches.push({
+        url,
+        // Rules capturing the same string report the same place
+        index: match.index + Math.max(0, match[0].indexOf(captured)),
+        length: captured.length,
+        ruleId: rule.id,
+        ...(method ? { method } : {}),
+        ...(rule.type ? { type: rule.type } : {})
+      })
+    }
+  }
+  return matches
+}
@@ -1,147 +1,101 @@
-import { useState, useEffect } from "react"
+import { useState, useEffect, useMemo } from "react"
 import { sendToBackground } from "@plasmohq/messaging"
-import { buildLfiPayloadList } from "./lfiPayloads"
-
-// ---------- Type Definitions ----------
-interface EndpointInfo {
-  url: string
-  method?: string
-  type: 'api' | 'static' | 'page' | 'unknown'
-  source: string
-  line?: number
-}
-
-interface ScrapeResult {
-  endpoints: EndpointInfo[]
-  totalCount: number
-  domain: string
-}
-
-interface LfiSingleResult {
-  parameter: string
-  originalValue: string | null
-  testedUrl: string
-  payload: string
-  status: number
-  contentLength: number
-  indicators: string[]
-  vulnerable: boolean
-  detection: 'CONFIRMED_LFI' | 'POSSIBLE_LFI' | 'SUSPICIOUS' | 'NOT_VULNERABLE'
-  confidence: 'Low' | 'Medium' | 'High'
-  sample?: string
-}
-
-interface LfiScanSummary {
-  baseUrl: string
-  parametersTested: {
-    name: string
-    originalValue: string | null
-    totalTests: number
-    vulnerableCount: number
-  }[]
-  totalTests: number
-  vulnerableCount: number
-  results: LfiSingleResult[]
-}
+import { LFI_PAYLOAD_CATEGORIES } from "./lfiPayloads"
+import { buildLfiTarget, buildParameterInventory } from "~parameters"
+import { clusterRouteTemplates } from "~routeTemplates"
+import { countOperations, parseSpecDocument, specToEndpoints } from "~openApi"
+import { annotateOrigins, buildHostInventory } from "~origins"
+import {
+  applyEndpointClasses,
+  BUILT_IN_CLASSES,
+  getClassLabel,
+  loadEndpointClasses,
+  type EndpointClass
+} from "~endpointClassifier"
+import {
+  buildBackupChecks,
+  EXPOSURE_CHECKS,
+  EXPOSURE_SCAN_PROGRESS_ACTION,
+  type ExposureScanProgress,
+  type ExposureScanSummary
+} from "~exposures"
+import { EXTRACTION_PROGRESS_ACTION } from "~extractionHost"
+import { LFI_JOB_PROGRESS_ACTION, type LfiJobProgress } from "~lfiJobs"
+import {
+  buildTemplateRequest,
+  parseRequestTemplate,
+  templateFromUrl,
+  type RequestTemplate
+} from "~lfiRequestTemplate"
+import {
+  DEFAULT_MUTATION_OPTIONS,
+  generateTraversalVariants,
+  MAX_TRAVERSAL_DEPTH,
+  TRAVERSAL_ENCODINGS,
+  TRAVERSAL_SEPARATORS,
+  TRAVERSAL_SUFFIXES,
+  type MutationOptions
+} from "~lfiMutations"
+import type { LfiScanSummary, LfiSingleResult } from "~lfiScanner"
+import {
+  DEFAULT_SCHEDULER_SETTINGS,
+  loadSchedulerSettings,
+  saveSchedulerSettings,
+  type SchedulerSettings,
+  type SchedulerStats
+} from "~requestScheduler"
+import type { ExtractionProgress } from "~scriptExtraction"
+import type {
+  CrawlOptions,
+  EndpointInfo,
+  ExtractionMode,
+  ScrapeResult
+} from "~background/messages/scrape-website"
+import type { NetworkRecorderState } from "~networkRecorder"
+import {
+  buildWordlistPayloads,
+  BUNDLED_WORDLISTS,
+  DEFAULT_WORDLIST_SELECTION,
+  loadWordlists,
+  loadWordlistSelection,
+  saveWordlistSelection,
+  type Wordlist,
+  type WordlistSelection
+} from "~wordlists"
 
 // ---------- Helper Functions ----------
-const getTypeColor = (type: string): string => {
-  switch (type) {
-    case 'api': return '#dc3545'
-    case 'page': return '#28a745'
-    case 'static': return '#ffc107'
-    case 'unknown': return '#6c757d'
+const getTypeColor = (type: string, classes: EndpointClass[] = BUILT_IN_CLASSES): string =>
+  classes.find(endpointClass => endpointClass.id === type)?.color || '#6c757d'
+
+const getSeverityColor = (severity: string): string => {
+  switch (severity) {
+    case 'critical': return '#7b1fa2'
+    case 'high': return '#dc3545'
+    case 'medium': return '#fd7e14'
+    case 'low': return '#ffc107'
+    case 'info': return '#17a2b8'
     default: return '#6c757d'
   }
 }
 
-const buildLfiTestUrls = (baseUrl: string, param: string, payloads: string[]): { url: string, payload: string }[] => {
-  const u = new URL(baseUrl)
-  const hasParam = Array.from(u.searchParams.keys()).includes(param)
-  return payloads.map(p => {
-    const test = new URL(u.toString())
-    if (hasParam) {
-      test.searchParams.set(param, p)
-    } else {
-      test.searchParams.append(param, p)
-    }
-    return { url: test.toString(), payload: p }
-  })
-}
-
-const fetchWithTimeout = async (input: RequestInfo | URL, ms: number): Promise<Response> => {
-  const controller = new AbortController()
-  const id = setTimeout(() => controller.abort(), ms)
-  try {
-    const res = await fetch(input, { signal: controller.signal as AbortSignal })
-    return res
-  } finally {
-    clearTimeout(id)
-  }
-}
-
-const safeReadText = async (res: Response): Promise<string> => {
-  try {
-    return await res.text()
-  } catch {
-    return ''
-  }
-}
-
-const detectLfiIndicators = (body: string): string[] => {
-  const indicators: { label: string, regex: RegExp }[] = [
-    // Linux passwd / shells
-    { label: 'etc/passwd', regex: /root:x:0:0:|:\/bin\/(bash|sh|csh|zsh)|daemon:x:/i },
-    { label: 'etc/shadow', regex: /root:.*:1[0-9]{4,}:/i },
-    { label: 'Unix hosts file', regex: /127\.0\.0\.1\s+localhost|::1\s+localhost/i },
-    { label: 'proc/environ', regex: /PATH=|HOME=|SHELL=|USER=|PWD=/i },
-    { label: 'proc/version', regex: /Linux version \d+\.\d+\.\d+/i },
-    // Windows INI files
-    { label: 'Windows win.ini', regex: /\[fonts\]|\[extensions\]|\[mci extensions\]|\[drivers\]|for 16-bit app support/i },
-    { label: 'Windows boot.ini', regex: /\[boot loader\]|\[operating systems\]|multi\(0\)disk/i },
-    { label: 'Windows hosts', regex: /127\.0\.0\.1\s+localhost.*::1/i },
-    { label: 'PHP source', regex: /<\?php|<\?=|phpinfo\(\)|echo\s+\$_/i },
-    { label: 'Apache config', regex: /<Directory|LoadModule|ServerRoot/i },
-    { label: 'SSH config', regex: /Host \*|IdentityFile|UserKnownHostsFile/i },
-    { label: 'MySQL config', regex: /\[mysqld\]|\[client\]|datadir=/i },
-    { label: 'Bash history', regex: /^#\d{10}$|^ls\s|^cd\s|^cat\s/i },
-    { label: 'Error disclosure', regex: /Warning:.*include|Failed opening.*for inclusion|No such file or directory/i }
-  ]
-  const hits: string[] = []
-  for (const i of indicators) {
-    if (i.regex.test(body)) hits.push(i.label)
-  }
-  return hits
-}
-
-const analyzeLfiHeuristics = (
-  indicators: string[],
-  baselineStatus: number | null,
-  baselineLength: number | null,
-  status: number,
-  length: number
-): { detection: LfiSingleResult['detection'], confidence: LfiSingleResult['confidence'] } => {
-  // 1) Known file indicators present → CONFIRMED LFI
-  if (indicators.length > 0) {
-    return { detection: 'CONFIRMED_LFI', confidence: 'High' }
-  }
-
-  // 2) Response length changes significantly (>30%) → POSSIBLE LFI
-  if (baselineLength !== null && baselineLength > 0) {
-    const diffRatio = Math.abs(length - baselineLength) / baselineLength
-    if (diffRatio > 0.3) {
-      return { detection: 'POSSIBLE_LFI', confidence: 'Medium' }
-    }
-  }
-
-  // 3) Status code changes from baseline → SUSPICIOUS
-  if (baselineStatus !== null && baselineStatus !== status) {
-    return { detection: 'SUSPICIOUS', confidence: 'Low' }
-  }
-
-  // 4) Else → NOT VULNERABLE
-  return { detection: 'NOT_VULNERABLE', confidence: 'Low' }
-}
+const toggleItem = <T,>(items: T[], item: T): T[] =>
+  items.includes(item) ? items.filter(i => i !== item) : [...items, item]
+
+const formatSchedulerStats = (stats: SchedulerStats): string => [
+  `${stats.throughput} req/s`,
+  `${stats.inFlight} in flight`,
+  `${stats.errors} error${stats.errors === 1 ? '' : 's'}`,
+  stats.throttled > 0 && `${stats.throttled} throttled (429/503)`,
+  stats.backingOffUntil && `backing off ${Math.ceil((stats.backingOffUntil - Date.now()) / 1000)}s`
+].filter(Boolean).join(' · ')
+
+const SCHEDULER_FIELDS: { key: keyof SchedulerSettings, label: string, min: number, step: number }[] = [
+  { key: 'concurrency', label: 'Concurrency', min: 1, step: 1 },
+  { key: 'requestsPerSecond', label: 'Req/s per host', min: 0, step: 0.5 },
+  { key: 'jitterMs', label: 'Jitter (ms)', min: 0, step: 50 },
+  { key: 'timeoutMs', label: 'Timeout (ms)', min: 1000, step: 1000 },
+  { key: 'maxRetries', label: 'Retries on 429/503', min: 0, step: 1 }
+]
 
 // ---------- Main Component ----------
 function IndexPopup() {
@@ -149,48 +103,103 @@ function IndexPopup() {
   const [results, setResults] = useState<ScrapeResult | null>(null)
   const [loading, setLoading] = useState(false)
   const [error, setError] = useState("")
-  const [filter, setFilter] = useState<'all' | 'api' | 'static' | 'page' | 'unknown'>('all')
+  const [filter, setFilter] = useState<'all' | EndpointInfo['type']>('all')
+  const [endpointClasses, setEndpointClasses] = useState<EndpointClass[]>(BUILT_IN_CLASSES)
+  const [hideThirdParty, setHideThirdParty] = useState(false)
+  const [showHosts, setShowHosts] = useState(false)
+  const [showSkipped, setShowSkipped] = useState(false)
+  const [scanProgress, setScanProgress] = useState<ExtractionProgress | null>(null)
+  const [extractionMode, setExtractionMode] = useState<ExtractionMode>('ast')
+  const [crawl, setCrawl] = useState<CrawlOptions>({
+    enabled: false,
+    maxDepth: 2,
+    maxPages: 20,
+    includePatterns: [],
+    excludePatterns: ['/logout*', '/signout*']
+  })
+  const [wellKnownFiles, setWellKnownFiles] = useState(true)
+  const [recorder, setRecorder] = useState<NetworkRecorderState | null>(null)
+  const [graphqlIntrospection, setGraphqlIntrospection] = useState(false)
+  const [apiSpecs, setApiSpecs] = useState(true)
+  const [expandedSchemas, setExpandedSchemas] = useState<Record<string, boolean>>({})
+  const [view, setView] = useState<'raw' | 'template'>('raw')
+  const [expandedTemplates, setExpandedTemplates] = useState<Record<string, boolean>>({})
+  const [expandedOccurrences, setExpandedOccurrences] = useState<Record<string, boolean>>({})
 
   // LFI Scanner state
   const [lfiUrl, setLfiUrl] = useState("")
   const [lfiParam, setLfiParam] = useState("file")
-  const [lfiLoading, setLfiLoading] = useState(false)
+  const [lfiMode, setLfiMode] = useState<'parameters' | 'template'>('parameters')
+  const [lfiTemplate, setLfiTemplate] = useState("")
+  const [lfiJob, setLfiJob] = useState<LfiJobProgress | null>(null)
+  const [lfiJobs, setLfiJobs] = useState<LfiJobProgress[]>([])
   const [lfiResults, setLfiResults] = useState<LfiScanSummary | null>(null)
   const [expandedParams, setExpandedParams] = useState<Record<string, boolean>>({})
   const [showLfiDetails, setShowLfiDetails] = useState<boolean>(true)
-  const [wordlist, setWordlist] = useState<string[]>([])
+  const [wordlists, setWordlists] = useState<Wordlist[]>(BUNDLED_WORDLISTS)
+  const [wordlistSelection, setWordlistSelection] = useState<WordlistSelection>(DEFAULT_WORDLIST_SELECTION)
   const [wordlistLoading, setWordlistLoading] = useState(true)
   const [payloadCap, setPayloadCap] = useState<number>(500)
-  const [currentProgress, setCurrentProgress] = useState({ current: 0, total: 0 })
+  const [includeVariants, setIncludeVariants] = useState(false)
+  const [mutationOptions, setMutationOptions] = useState<MutationOptions>(DEFAULT_MUTATION_OPTIONS)
+  const lfiLoading = lfiJob?.status === 'running'
+  // Generated variants go in as one more list, ahead of the saved ones
+  const variantList: Wordlist = useMemo(() => ({
+    id: 'generated-variants',
+    name: 'Generated variants',
+    description: 'Traversal variants of the target files',
+    payloads: generateTraversalVariants(mutationOptions)
+  }), [mutationOptions])
+  // Imported lists run to tens of thousands of entries, so this is not rebuilt on every progress update
+  const selectedPayloads = useMemo(() => buildWordlistPayloads(
+    includeVariants ? { ...wordlistSelection, listIds: [...wordlistSelection.listIds, variantList.id] } : wordlistSelection,
+    [variantList, ...wordlists],
+    payloadCap
+  ), [includeVariants, variantList, wordlistSelection, wordlists, payloadCap])
+  const parseLfiTemplate = (): { template?: RequestTemplate, error?: string } => {
+    try {
+      return { template: parseRequestTemplate(lfiTemplate, lfiUrl.trim() || url.trim() || undefined) }
+    } catch (e: any) {
+      return { error: e?.message || String(e) }
+    }
+  }
+  const templatePreview = lfiMode === 'template' && lfiTemplate.trim() ? parseLfiTemplate() : null
+
+  // Exposure Scanner state
+  const [exposureUrl, setExposureUrl] = useState("")
+  const [exposureLoading, setExposureLoading] = useState(false)
+  const [exposureResults, setExposureResults] = useState<ExposureScanSummary | null>(null)
+  const [exposureProgress, setExposureProgress] = useState({ current: 0, total: 0 })
+  const [includeBackups, setIncludeBackups] = useState(true)
+  const [exposureStats, setExposureStats] = useState<SchedulerStats | null>(null)
+
+  // Request limits shared by the LFI and exposure scanners
+  const [schedulerSettings, setSchedulerSettings] = useState<SchedulerSettings>(DEFAULT_SCHEDULER_SETTINGS)
 
-  // Load SecLists wordlist on mount
   useEffect(() => {
-    const loadWordlist = async () => {
-      try {
-        setWordlistLoading(true)
-        // Start with our categorized, locally-defined payloads
-        const basePayloads = buildLfiPayloadList()
-
-        const response = await fetch('https://raw.githubusercontent.com/danielmiessler/SecLists/master/Fuzzing/LFI/LFI-Jhaddix.txt')
-        if (!response.ok) throw new Error('Failed to fetch wordlist')
-        const text = await response.text()
-        const payloads = text
-          .split(/\r?\n/)
-          .map(line => line.trim())
-          .filter(line => line && !line.startsWith('#') && line.length > 0)
-
-        // Combine categorized payloads with SecLists for broader coverage
-        const combined = Array.from(new Set([...basePayloads, ...payloads]))
-        setWordlist(combined)
-      } catch (err) {
-        console.error('Failed to load wordlist:', err)
-        // Fallback to categorized, local payloads
-        setWordlist(buildLfiPayloadList())
-      } finally {
-        setWordlistLoading(false)
-      }
+    loadEndpointClasses().then(setEndpointClasses)
+    loadSchedulerSettings().then(setSchedulerSettings)
+  }, [])
+
+  // The extraction worker reports each file it works through while a scan runs
+  useEffect(() => {
+    const onMessage = (message: any) => {
+      if (message?.action === EXTRACTION_PROGRESS_ACTION) setScanProgress(message.progress)
     }
-    loadWordlist()
+    chrome.runtime.onMessage.addListener(onMessage)
+    return () => chrome.runtime.onMessage.removeListener(onMessage)
+  }, [])
+
+  // Wordlists ship with the extension or are imported on the options page, so this works offline
+  useEffect(() => {
+    Promise.all([loadWordlists(), loadWordlistSelection()])
+      .then(([lists, selection]) => {
+        setWordlists(lists)
+        // Lists deleted since the last scan drop out of the selection
+        setWordlistSelection({ ...selection, listIds: selection.listIds.filter(id => lists.some(list => list.id === id)) })
+      })
+      .catch(err => console.error('Failed to load wordlists:', err))
+      .finally(() => setWordlistLoading(false))
   }, [])
 
   const sendToBackgroundWithRetry = async <T = any>(message: { name: string, body?: any }, retries = 1): Promise<T> => {
@@ -220,6 +229,43 @@ function IndexPopup() {
     }
   }
 
+  // Exposure checks run in the background, which reports each one as it completes
+  useEffect(() => {
+    const onMessage = (message: any) => {
+      if (message?.action !== EXPOSURE_SCAN_PROGRESS_ACTION) return
+      const progress: ExposureScanProgress = message.progress
+      setExposureProgress({ current: progress.current, total: progress.total })
+      setExposureStats(progress.stats)
+    }
+    chrome.runtime.onMessage.addListener(onMessage)
+    return () => chrome.runtime.onMessage.removeListener(onMessage)
+  }, [])
+
+  // Recording survives the popup closing, so read its state on open
+  useEffect(() => {
+    sendToBackgroundWithRetry<NetworkRecorderState>({ name: "network-recorder", body: { action: 'status' } })
+      .then(setRecorder)
+      .catch(err => console.error('Failed to read network recorder state:', err))
+  }, [])
+
+  const handleRecorder = async (action: 'start' | 'stop' | 'clear') => {
+    try {
+      const [tab] = await chrome.tabs.query({ active: true, currentWindow: true })
+      const response = await sendToBackgroundWithRetry({
+        name: "network-recorder",
+        body: { action, tabId: tab?.id }
+      })
+      if (response.error) {
+        setError(`Error: ${response.error}`)
+      } else {
+        setRecorder(response)
+      }
+    } catch (err) {
+      console.error('Network recorder error:', err)
+      setError("Failed to control the network recorder.")
+    }
+  }
+
   const extractFromCurrentPage = async (): Promise<EndpointInfo[]> => {
     try {
       // Send message to content script to extract endpoints
@@ -251,11 +297,12 @@ function IndexPopup() {
     setLoading(true)
     setError("")
     setResults(null)
+    setScanProgress(null)
 
     try {
       const response = await sendToBackgroundWithRetry({
         name: "scrape-website",
-        body: { url: url.trim() }
+        body: { url: url.trim(), extractionMode, crawl, wellKnownFiles, graphqlIntrospection, apiSpecs }
       })
 
       if (response.error) {
@@ -276,7 +323,16 @@ function IndexPopup() {
             setResults({
               endpoints: contentEndpoints,
               totalCount: contentEndpoints.length,
-              domain: currentUrl.hostname
+              domain: currentUrl.hostname,
+              sourceMaps: [],
+              pagesScanned: [currentUrl.href],
+              parameters: buildParameterInventory(contentEndpoints),
+              routeTemplates: clusterRouteTemplates(contentEndpoints).templates,
+              secrets: [],
+              graphql: { endpoints: [], operations: [], schemas: [], introspectionErrors: [] },
+              apiSpecs: [],
+              hosts: buildHostInventory(contentEndpoints, currentUrl.href),
+              skippedFiles: []
             })
             setError("") // Clear error since we got some results
           } else {
@@ -294,33 +350,250 @@ function IndexPopup() {
     }
   }
 
+  // Load a spec file by hand and add its operations to the current results
+  const handleSpecImport = async (file: File) => {
+    try {
+      const doc = parseSpecDocument(await file.text())
+      if (!doc) {
+        setError(`${file.name} is not an OpenAPI or Swagger document`)
+        return
+      }
+
+      let baseUrl = 'http://localhost/'
+      try {
+        baseUrl = new URL(url.trim()).href
+      } catch {}
+      const imported = applyEndpointClasses(
+        annotateOrigins(specToEndpoints(doc, baseUrl, `OpenAPI file: ${file.name}`), baseUrl),
+        endpointClasses
+      )
+      const existing = results?.endpoints || []
+      const endpoints = [
+        ...existing,
+        ...imported.filter(e => !existing.some(x => x.url === e.url && x.method === e.method))
+      ]
+      const { endpoints: templated, templates } = clusterRouteTemplates(endpoints)
+
+      setError("")
+      setResults({
+        sourceMaps: [],
+        pagesScanned: [],
+        secrets: [],
+        graphql: { endpoints: [], operations: [], schemas: [], introspectionErrors: [] },
+        skippedFiles: [],
+        ...results,
+        endpoints: templated,
+        totalCount: templated.length,
+        domain: results?.domain || new URL(baseUrl).hostname,
+        parameters: buildParameterInventory(templated),
+        routeTemplates: templates,
+        hosts: buildHostInventory(templated, baseUrl),
+        apiSpecs: [
+          ...(results?.apiSpecs || []),
+          {
+            url: file.name,
+            version: String(doc.openapi || doc.swagger),
+            ...(doc.info?.title ? { title: String(doc.info.title) } : {}),
+            operationCount: countOperations(doc)
+          }
+        ]
+      })
+    } catch (e: any) {
+      setError(`Failed to import ${file.name}: ${e?.message || e}`)
+    }
+  }
+
+  // Prefill the LFI scanner with an endpoint and one of its discovered parameters
+  const sendParameterToLfi = (endpoint: EndpointInfo, parameter: string) => {
+    const target = buildLfiTarget(endpoint.url, endpoint.parameters || [], url.trim())
+    if (!target) return
+    setLfiUrl(target)
+    setLfiParam(parameter)
+  }
+
   const filteredEndpoints = results?.endpoints.filter(endpoint => 
-    filter === 'all' || endpoint.type === filter
+    (filter === 'all' || (endpoint.classes || [endpoint.type]).includes(filter)) &&
+    !(hideThirdParty && endpoint.party === 'third-party')
+  ) || []
+
+  // Every class present in the results, in classifier priority order
+  const classCounts = new Map<string, number>()
+  for (const endpoint of results?.endpoints || []) {
+    for (const id of endpoint.classes || [endpoint.type]) classCounts.set(id, (classCounts.get(id) || 0) + 1)
+  }
+  const classOptions = Array.from(classCounts.keys()).sort((a, b) => {
+    const rank = (id: string) => {
+      const index = endpointClasses.findIndex(endpointClass => endpointClass.id === id)
+      return index === -1 ? endpointClasses.length : index
+    }
+    return rank(a) - rank(b)
+  })
+
+  const filteredTemplates = results?.routeTemplates.filter(route =>
+    filter === 'all' || route.type === filter
   ) || []
 
   const exportResults = (format: 'txt' | 'csv') => {
     if (!results) return
 
     let content = ""
-    const headers = ["URL", "Type", "Method", "Source", "Line"]
+    const headers = ["URL", "Type", "Method", "Source", "Line", "Composed", "Found On", "Tags", "Parameters", "Status", "Content Type", "Enctype", "Classes", "Host", "Party", "Protocol"]
     
     if (format === 'csv') {
       content = headers.join(",") + "\n"
       content += filteredEndpoints.map(endpoint => 
-        `"${endpoint.url}","${endpoint.type}","${endpoint.method || 'N/A'}","${endpoint.source}","${endpoint.line || 'N/A'}"`
+        `"${endpoint.url}","${endpoint.type}","${endpoint.method || 'N/A'}","${endpoint.source}","${endpoint.line || 'N/A'}","${endpoint.composed ? 'Yes' : 'No'}","${(endpoint.foundOn || []).join(' ')}","${(endpoint.tags || []).join(' ')}","${(endpoint.parameters || []).map(p => p.name).join(' ')}","${endpoint.status ?? ''}","${endpoint.contentType || ''}","${endpoint.enctype || ''}","${(endpoint.classes || [endpoint.type]).join(' ')}","${endpoint.host || ''}","${endpoint.party || ''}","${endpoint.protocol || ''}"`
       ).join("\n")
+      if (results.parameters.length > 0) {
+        content += "\n\nEndpoint,Parameter,Location,Examples,Sources\n"
+        content += results.parameters.map(p =>
+          `"${p.endpoint}","${p.name}","${p.location}","${p.examples.join(' | ')}","${p.sources.join(' | ')}"`
+        ).join("\n")
+      }
+      if (results.sourceMaps.length > 0) {
+        content += "\n\nSource Map URL,Script URL,Discovered Via,Sources,Sources With Content\n"
+        content += results.sourceMaps.map(map =>
+          `"${map.mapUrl}","${map.scriptUrl}","${map.discoveredVia}","${map.sourceCount}","${map.sourcesWithContent}"`
+        ).join("\n")
+      }
+      if (results.apiSpecs.length > 0) {
+        content += "\n\nAPI Spec,Title,Version,Operations,Found Via\n"
+        content += results.apiSpecs.map(spec =>
+          `"${spec.url}","${spec.title || ''}","${spec.version}","${spec.operationCount}","${spec.foundVia || ''}"`
+        ).join("\n")
+      }
+      if (results.graphql.operations.length > 0) {
+        content += "\n\nGraphQL Operation,Kind,Variables,Root Fields,Source,Line\n"
+        content += results.graphql.operations.map(op =>
+          `"${op.name}","${op.kind}","${op.variables.map(v => `$${v.name}: ${v.type}`).join(' ')}","${op.rootFields.join(' ')}","${op.source}","${op.line}"`
+        ).join("\n")
+      }
+      if (results.graphql.schemas.length > 0) {
+        content += "\n\nGraphQL Endpoint,Kind,Field,Arguments,Returns\n"
+        content += results.graphql.schemas.flatMap(schema =>
+          ([['query', schema.queries], ['mutation', schema.mutations], ['subscription', schema.subscriptions]] as const)
+            .flatMap(([kind, fields]) => fields.map(field =>
+              `"${schema.endpoint}","${kind}","${field.name}","${field.args.map(a => `${a.name}: ${a.type}`).join(' ')}","${field.type}"`
+            ))
+        ).join("\n")
+      }
+      if (results.hosts.length > 0) {
+        content += "\n\nHost,Registrable Domain,Relation,Endpoints\n"
+        content += results.hosts.map(host =>
+          `"${host.host}","${host.registrableDomain}","${host.relation}","${host.endpointCount}"`
+        ).join("\n")
+      }
+      if (results.skippedFiles.length > 0) {
+        content += "\n\nSkipped File,Reason\n"
+        content += results.skippedFiles.map(skipped => `"${skipped.url}","${skipped.reason}"`).join("\n")
+      }
+      if (results.secrets.length > 0) {
+        content += "\n\nSecret,Severity,Masked Value,Name,Source,Line\n"
+        content += results.secrets.map(secret =>
+          `"${secret.rule}","${secret.severity}","${secret.maskedValue}","${secret.name || ''}","${secret.source}","${secret.line}"`
+        ).join("\n")
+      }
     } else {
       content = `Endpoint Analysis Results\n`
       content += `Domain: ${results.domain}\n`
+      content += `Pages Scanned: ${results.pagesScanned.length}\n`
       content += `Total Endpoints: ${results.totalCount}\n`
-      content += `Filtered Endpoints: ${filteredEndpoints.length}\n\n`
+      content += `Filtered Endpoints: ${filteredEndpoints.length}\n`
+      content += `Exposed Source Maps: ${results.sourceMaps.length}\n`
+      content += `Possible Secrets: ${results.secrets.length}\n`
+      content += `GraphQL Operations: ${results.graphql.operations.length}\n`
+      content += `API Specs: ${results.apiSpecs.length}\n`
+      content += `Hosts: ${results.hosts.map(host => `${host.host} (${host.relation})`).join(', ')}\n`
+      content += `Skipped Files: ${results.skippedFiles.length}\n\n`
+
+      results.skippedFiles.forEach(skipped => {
+        content += `Skipped: ${skipped.url} (${skipped.reason})\n`
+      })
+
+      results.apiSpecs.forEach(spec => {
+        content += `API Spec: ${spec.url}\n`
+        if (spec.title) content += `Title: ${spec.title}\n`
+        content += `Version: ${spec.version} (${spec.operationCount} operations)\n`
+        content += "---\n"
+      })
+
+      results.graphql.operations.forEach(op => {
+        const variables = op.variables.map(v => `$${v.name}: ${v.type}`).join(', ')
+        content += `GraphQL ${op.kind}: ${op.name}${variables ? `(${variables})` : ''}\n`
+        content += `Source: ${op.source}:${op.line}\n`
+        content += "---\n"
+      })
+
+      results.graphql.schemas.forEach(schema => {
+        content += `GraphQL Schema: ${schema.endpoint}\n`
+        ;([['Query', schema.queries], ['Mutation', schema.mutations], ['Subscription', schema.subscriptions]] as const)
+          .forEach(([kind, fields]) => fields.forEach(field => {
+            const args = field.args.map(a => `${a.name}: ${a.type}`).join(', ')
+            content += `${kind}: ${field.name}${args ? `(${args})` : ''}: ${field.type}\n`
+          }))
+        content += "---\n"
+      })
+
+      results.secrets.forEach(secret => {
+        content += `Secret: ${secret.rule} [${secret.severity}]${secret.name ? ` (${secret.name})` : ''}\n`
+        content += `Value: ${secret.maskedValue}\n`
+        content += `Source: ${secret.source}:${secret.line}\n`
+        content += "---\n"
+      })
+
+      results.sourceMaps.forEach(map => {
+        content += `Source Map: ${map.mapUrl}\n`
+        content += `Script: ${map.scriptUrl}\n`
+        content += `Discovered Via: ${map.discoveredVia}\n`
+        content += `Sources: ${map.sourceCount} (${map.sourcesWithContent} with content)\n`
+        content += "---\n"
+      })
       
       filteredEndpoints.forEach(endpoint => {
         content += `URL: ${endpoint.url}\n`
         content += `Type: ${endpoint.type}\n`
+        if (endpoint.protocol) {
+          content += `Protocol: ${endpoint.protocol}\n`
+        }
+        if (endpoint.classes && endpoint.classes.length > 1) {
+          content += `Classes: ${endpoint.classes.join(', ')}\n`
+        }
+        if (endpoint.host) {
+          content += `Host: ${endpoint.host} (${endpoint.party})\n`
+        }
         content += `Method: ${endpoint.method || 'N/A'}\n`
         content += `Source: ${endpoint.source}\n`
         content += `Line: ${endpoint.line || 'N/A'}\n`
+        if (endpoint.composed) {
+          content += `Composed: Yes\n`
+        }
+        if (endpoint.foundOn && endpoint.foundOn.length > 0) {
+          content += `Found On: ${endpoint.foundOn.join(', ')}\n`
+        }
+        if (endpoint.tags && endpoint.tags.length > 0) {
+          content += `Tags: ${endpoint.tags.join(', ')}\n`
+        }
+        if (endpoint.status !== undefined) {
+          content += `Status: ${endpoint.status}\n`
+        }
+        if (endpoint.contentType) {
+          content += `Content Type: ${endpoint.contentType}\n`
+        }
+        if (endpoint.enctype) {
+          content += `Enctype: ${endpoint.enctype}\n`
+        }
+        if (endpoint.requestBody) {
+          content += `Request Body: ${endpoint.requestBody.contentType} ${JSON.stringify(endpoint.requestBody.schema)}\n`
+        }
+        for (const o of endpoint.occurrences || []) {
+          content += `Reference: ${o.source}${o.line !== undefined ? `:${o.line}` : ''}${o.column !== undefined ? `:${o.column + 1}` : ''}\n`
+          if (o.snippet && o.snippetLine !== undefined) content += `  ${o.snippet[o.snippetLine].trim()}\n`
+        }
+        const endpointParameters = results.parameters.filter(p => p.endpoint === endpoint.url)
+        endpointParameters.forEach(p => {
+          content += `Parameter: ${p.name} (${p.location})`
+          content += p.examples.length > 0 ? ` e.g. ${p.examples.join(', ')}\n` : "\n"
+        })
         content += "---\n"
       })
     }
@@ -334,154 +607,150 @@ function IndexPopup() {
     URL.revokeObjectURL(url)
   }
 
-  const handleRunLfi = async () => {
-    const targetUrl = (lfiUrl.trim() || url.trim())
-    if (!targetUrl) {
-      setError("Enter a URL for LFI scan or run endpoint scan first")
-      return
-    }
+  // LFI scans run as background jobs; reopen the latest one and follow its progress
+  useEffect(() => {
+    sendToBackgroundWithRetry<LfiJobProgress[]>({ name: "lfi-scan", body: { action: 'list' } })
+      .then(jobs => {
+        if (!Array.isArray(jobs)) return
+        setLfiJobs(jobs)
+        if (jobs.length > 0) setLfiJob(jobs[0])
+      })
+      .catch(err => console.error('Failed to list LFI jobs:', err))
 
-    let parsedUrl: URL
-    try {
-      parsedUrl = new URL(targetUrl)
-    } catch {
-      setError("Please enter a valid URL (e.g., https://example.com)")
-      return
+    const onMessage = (message: any) => {
+      if (message?.action !== LFI_JOB_PROGRESS_ACTION) return
+      const progress: LfiJobProgress = message.progress
+      setLfiJob(current => !current || current.id === progress.id ? progress : current)
+      setLfiJobs(jobs => jobs.map(job => job.id === progress.id ? progress : job))
     }
+    chrome.runtime.onMessage.addListener(onMessage)
+    return () => chrome.runtime.onMessage.removeListener(onMessage)
+  }, [])
+
+  // Results are fetched when a job is opened, a new finding comes in or the job stops
+  useEffect(() => {
+    if (!lfiJob) return
+    sendToBackgroundWithRetry<{ summary?: LfiScanSummary, error?: string }>({
+      name: "lfi-scan",
+      body: { action: 'get', id: lfiJob.id }
+    })
+      .then(response => { if (response.summary) setLfiResults(response.summary) })
+      .catch(err => console.error('Failed to load LFI job:', err))
+  }, [lfiJob?.id, lfiJob?.status, lfiJob?.vulnerableCount])
 
-    if (wordlist.length === 0) {
-      setError("Wordlist not loaded yet. Please wait...")
+  const handleRunLfi = async () => {
+    if (selectedPayloads.payloads.length === 0) {
+      setError("Select at least one wordlist or payload category.")
       return
     }
 
-    setError("")
-    setLfiLoading(true)
-    setLfiResults(null)
-
-    // Discover parameters from URL (ignore empty names)
-    const discoveredParams = Array.from(parsedUrl.searchParams.keys())
-      .map((name) => name.trim())
-      .filter((name) => name.length > 0)
-    const uniqueDiscoveredParams = Array.from(new Set(discoveredParams))
-
-    let paramsToTest: string[]
-    if (lfiParam.trim()) {
-      // User explicitly specified a parameter – only test that one
-      paramsToTest = [lfiParam.trim()]
+    let target: { targetUrl: string, parameters: { name: string, originalValue: string | null }[], template?: RequestTemplate }
+    if (lfiMode === 'template') {
+      const { template, error: templateError } = parseLfiTemplate()
+      if (!template) {
+        setError(`Request template: ${templateError}`)
+        return
+      }
+      target = {
+        targetUrl: buildTemplateRequest(template).url,
+        // Each marked point is tested like a parameter
+        parameters: template.points.map(({ name, originalValue }) => ({ name, originalValue })),
+        template
+      }
     } else {
-      // Auto-discover all parameters from the URL
-      paramsToTest = uniqueDiscoveredParams
-    }
-
-    if (paramsToTest.length === 0) {
-      setError("No query parameters found to test for LFI. Add parameters to the URL or specify a parameter name.")
-      setLfiLoading(false)
-      setCurrentProgress({ current: 0, total: 0 })
-      return
-    }
+      const targetUrl = (lfiUrl.trim() || url.trim())
+      if (!targetUrl) {
+        setError("Enter a URL for LFI scan or run endpoint scan first")
+        return
+      }
 
-    // Store original value for each parameter (may be null if it doesn't exist on URL)
-    const originalValues = new Map<string, string | null>()
-    for (const name of paramsToTest) {
-      originalValues.set(name, parsedUrl.searchParams.get(name))
-    }
+      let parsedUrl: URL
+      try {
+        parsedUrl = new URL(targetUrl)
+      } catch {
+        setError("Please enter a valid URL (e.g., https://example.com)")
+        return
+      }
 
-    // Use SecLists + categorized payloads wordlist
-    const payloadList = wordlist.slice(0, payloadCap)
+      // Discover parameters from URL (ignore empty names)
+      const discoveredParams = Array.from(parsedUrl.searchParams.keys())
+        .map((name) => name.trim())
+        .filter((name) => name.length > 0)
+      const uniqueDiscoveredParams = Array.from(new Set(discoveredParams))
 
-    try {
-      const results: LfiSingleResult[] = []
-      const perParameterSummary: {
-        name: string
-        originalValue: string | null
-        totalTests: number
-        vulnerableCount: number
-      }[] = []
-
-      const total = paramsToTest.length * payloadList.length
-      let currentIndex = 0
-
-      // Establish a baseline response for heuristics (original URL)
-      let baselineStatus: number | null = null
-      let baselineLength: number | null = null
-      try {
-        const baselineRes = await fetchWithTimeout(targetUrl, 8000)
-        const baselineBody = baselineRes.ok ? await safeReadText(baselineRes) : ""
-        baselineStatus = baselineRes.status
-        baselineLength = baselineBody.length
-      } catch (baselineErr) {
-        console.warn(`Failed to fetch baseline for ${targetUrl}:`, baselineErr)
+      let paramsToTest: string[]
+      if (lfiParam.trim()) {
+        // User explicitly specified a parameter – only test that one
+        paramsToTest = [lfiParam.trim()]
+      } else {
+        // Auto-discover all parameters from the URL
+        paramsToTest = uniqueDiscoveredParams
       }
 
-      for (const paramName of paramsToTest) {
-        const testUrls = buildLfiTestUrls(targetUrl, paramName, payloadList)
-        let paramVulnerableCount = 0
-
-        for (let i = 0; i < testUrls.length; i++) {
-          const { url: testUrl, payload } = testUrls[i]
-          currentIndex += 1
-          setCurrentProgress({ current: currentIndex, total })
-
-          try {
-            const res = await fetchWithTimeout(testUrl, 8000)
-            const bodyText = res.ok ? await safeReadText(res) : ""
-            const indicators = detectLfiIndicators(bodyText)
-
-            const { detection, confidence } = analyzeLfiHeuristics(
-              indicators,
-              baselineStatus,
-              baselineLength,
-              res.status,
-              bodyText.length
-            )
-            const vulnerable = detection !== 'NOT_VULNERABLE'
-
-            if (vulnerable) {
-              paramVulnerableCount += 1
-            }
-
-            // Record every response with its heuristic classification
-            results.push({
-              parameter: paramName,
-              originalValue: originalValues.get(paramName) ?? null,
-              testedUrl: testUrl,
-              payload,
-              status: res.status,
-              contentLength: bodyText.length,
-              indicators,
-              vulnerable,
-              detection,
-              confidence,
-              sample: bodyText.slice(0, 300)
-            })
-          } catch (fetchErr) {
-            // Skip failed requests, continue scanning
-            console.warn(`Failed to test ${testUrl}:`, fetchErr)
-          }
-        }
+      if (paramsToTest.length === 0) {
+        setError("No query parameters found to test for LFI. Add parameters to the URL or specify a parameter name.")
+        return
+      }
 
-        perParameterSummary.push({
-          name: paramName,
-          originalValue: originalValues.get(paramName) ?? null,
-          totalTests: testUrls.length,
-          vulnerableCount: paramVulnerableCount
-        })
+      target = {
+        targetUrl,
+        // Original value for each parameter (null if it doesn't exist on the URL)
+        parameters: paramsToTest.map(name => ({ name, originalValue: parsedUrl.searchParams.get(name) }))
       }
+    }
+
+    setError("")
 
-      const summary: LfiScanSummary = {
-        baseUrl: targetUrl,
-        parametersTested: perParameterSummary,
-        totalTests: total,
-        vulnerableCount: results.filter(r => r.vulnerable).length,
-        results
+    try {
+      const response = await sendToBackgroundWithRetry({
+        name: "lfi-scan",
+        body: {
+          action: 'start',
+          request: {
+            ...target,
+            payloads: selectedPayloads.payloads,
+            wordlists: selectedPayloads.usage.filter(source => source.payloadCount > 0)
+          }
+        }
+      })
+      if (response.error) {
+        setError(`LFI scan failed: ${response.error}`)
+        return
       }
-      setLfiResults(summary)
-      setCurrentProgress({ current: 0, total: 0 })
+      setLfiResults(null)
+      setLfiJob(response)
+      setLfiJobs(jobs => [response, ...jobs])
     } catch (e: any) {
       setError(`LFI scan failed: ${e?.message || e}`)
-      setCurrentProgress({ current: 0, total: 0 })
-    } finally {
-      setLfiLoading(false)
+    }
+  }
+
+  // Remembered for the next scan
+  const updateWordlistSelection = (next: WordlistSelection) => {
+    setWordlistSelection(next)
+    saveWordlistSelection(next).catch(err => console.error('Failed to save wordlist selection:', err))
+  }
+
+  // Saved right away so a running scan picks up the new limits
+  const updateSchedulerSetting = (key: keyof SchedulerSettings, value: number) => {
+    const next = { ...schedulerSettings, [key]: value }
+    setSchedulerSettings(next)
+    saveSchedulerSettings(next).catch(err => console.error('Failed to save request limits:', err))
+  }
+
+  const handleLfiJobAction = async (action: 'pause' | 'resume' | 'cancel') => {
+    if (!lfiJob) return
+    try {
+      const response = await sendToBackgroundWithRetry({ name: "lfi-scan", body: { action, id: lfiJob.id } })
+      if (response.error) {
+        setError(`Error: ${response.error}`)
+      } else {
+        setLfiJob(response)
+        setLfiJobs(jobs => jobs.map(job => job.id === response.id ? response : job))
+      }
+    } catch (err) {
+      console.error('LFI job error:', err)
+      setError("Failed to control the LFI scan.")
     }
   }
 
@@ -491,6 +760,7 @@ function IndexPopup() {
     if (format === 'csv') {
       const headers = [
         'Parameter',
+        'Location',
         'Original Value',
         'Detection',
         'Confidence',
@@ -502,6 +772,7 @@ function IndexPopup() {
       ]
       const rows = lfiResults.results.map(r => ([
         r.parameter,
+        r.location || 'query',
         r.originalValue ?? '',
         r.detection,
         r.confidence,
@@ -537,11 +808,18 @@ function IndexPopup() {
         .join(", ")
       lines.push(`Parameters Tested: ${paramsSummary}`)
     }
+    lines.push(`Payloads: ${lfiResults.payloadCount}`)
+    if (lfiResults.wordlists.length > 0) {
+      lines.push(`Wordlists: ${lfiResults.wordlists.map(w => `${w.name} (${w.payloadCount})`).join(', ')}`)
+    }
     lines.push(`Total Tests: ${lfiResults.totalTests}`)
     lines.push(`Vulnerable Findings (non-NOT_VULNERABLE): ${lfiResults.vulnerableCount}`)
     lines.push("---")
     for (const r of lfiResults.results) {
       lines.push(`Parameter: ${r.parameter}`)
+      if (r.location && r.location !== 'query') {
+        lines.push(`Location: ${r.location}`)
+      }
       if (r.originalValue !== null) {
         lines.push(`Original Value: ${r.originalValue}`)
       }
@@ -565,6 +843,102 @@ function IndexPopup() {
     URL.revokeObjectURL(link)
   }
 
+  const handleRunExposureScan = async () => {
+    const targetUrl = (exposureUrl.trim() || url.trim())
+    try {
+      new URL(targetUrl)
+    } catch {
+      setError("Enter a URL for the exposure scan or run endpoint scan first")
+      return
+    }
+
+    setError("")
+    setExposureLoading(true)
+    setExposureResults(null)
+
+    // Backup copies are derived from the pages the endpoint scan found
+    const checks = includeBackups && results
+      ? [...EXPOSURE_CHECKS, ...buildBackupChecks(results.endpoints.map(e => e.url), targetUrl)]
+      : EXPOSURE_CHECKS
+
+    // Checks go through the background's request queue, so they share its limits with running LFI jobs
+    try {
+      const response = await sendToBackgroundWithRetry<ExposureScanSummary & { error?: string }>({
+        name: "exposure-scan",
+        body: { baseUrl: targetUrl, checks }
+      })
+      if (response?.error) throw new Error(response.error)
+      setExposureResults(response)
+    } catch (e: any) {
+      setError(`Exposure scan failed: ${e?.message || e}`)
+    } finally {
+      setExposureStats(null)
+      setExposureProgress({ current: 0, total: 0 })
+      setExposureLoading(false)
+    }
+  }
+
+  const exportExposureResults = (format: 'txt' | 'csv') => {
+    if (!exposureResults) return
+
+    if (format === 'csv') {
+      const headers = ['Severity', 'Detection', 'Finding', 'Category', 'URL', 'Status', 'Content Length', 'Indicators']
+      const rows = exposureResults.findings.map(f => ([
+        f.severity,
+        f.detection,
+        f.label,
+        f.category,
+        f.url,
+        String(f.status),
+        String(f.contentLength),
+        f.indicators.join('; ')
+      ]))
+
+      const csv = [
+        headers.join(','),
+        ...rows.map(row => row.map(value => `"${String(value).replace(/"/g, '""')}"`).join(','))
+      ].join('\n')
+
+      const blob = new Blob([csv], { type: 'text/csv' })
+      const link = URL.createObjectURL(blob)
+      const a = document.createElement('a')
+      a.href = link
+      a.download = `exposure-results-${new Date().toISOString().split('T')[0]}.csv`
+      a.click()
+      URL.revokeObjectURL(link)
+      return
+    }
+
+    const lines: string[] = []
+    lines.push("Exposure Scan Results")
+    lines.push(`Target: ${exposureResults.baseUrl}`)
+    lines.push(`Checks: ${exposureResults.totalChecks}`)
+    if (exposureResults.baseline) {
+      lines.push(`Random-path baseline: HTTP ${exposureResults.baseline.status}, ${exposureResults.baseline.contentLength} bytes`)
+    }
+    lines.push(`Findings: ${exposureResults.findings.length}`)
+    lines.push("---")
+    for (const f of exposureResults.findings) {
+      lines.push(`Finding: ${f.label} [${f.severity}]`)
+      lines.push(`Detection: ${f.detection}`)
+      lines.push(`URL: ${f.url}`)
+      lines.push(`Status: ${f.status}`)
+      lines.push(`Content Length: ${f.contentLength}`)
+      lines.push(`Indicators: ${f.indicators.join(', ') || 'None'}`)
+      if (f.sample) {
+        lines.push(`Sample: ${f.sample.replace(/\n/g, ' ')}`)
+      }
+      lines.push("---")
+    }
+    const blob = new Blob([lines.join("\n")], { type: 'text/plain' })
+    const link = URL.createObjectURL(blob)
+    const a = document.createElement('a')
+    a.href = link
+    a.download = `exposure-results-${new Date().toISOString().replace(/[:.]/g, '-')}.txt`
+    a.click()
+    URL.revokeObjectURL(link)
+  }
+
   return (
     <div style={{ 
       width: 580, 
@@ -577,7 +951,7 @@ function IndexPopup() {
     }}>
       <div style={{ marginBottom: 16 }}>
         <h2 style={{ margin: '0 0 4px 0', color: '#222' }}>Security Toolkit</h2>
-        <div style={{ color: '#666', fontSize: 12, marginBottom: 12 }}>Scan endpoints and test for LFI vulnerabilities</div>
+        <div style={{ color: '#666', fontSize: 12, marginBottom: 12 }}>Scan endpoints, test for LFI vulnerabilities and find exposed files</div>
         <div style={{ 
           background: 'white', 
           border: '1px solid #e9edf5', 
@@ -613,6 +987,20 @@ function IndexPopup() {
               }}
               onKeyPress={(e) => e.key === 'Enter' && handleScrape()}
             />
+            <select
+              value={extractionMode}
+              onChange={(e) => setExtractionMode(e.target.value as ExtractionMode)}
+              title="Regex scans raw text; AST parses scripts, rebuilds concatenated URLs and infers methods, headers and bodies from call sites"
+              style={{
+                padding: 8,
+                border: '1px solid #ddd',
+                borderRadius: 4,
+                fontSize: 14
+              }}
+            >
+              <option value="ast">AST</option>
+              <option value="regex">Regex</option>
+            </select>
             <button
               onClick={handleScrape}
               disabled={loading}
@@ -630,6 +1018,158 @@ function IndexPopup() {
             </button>
           </div>
 
+          <div style={{ marginTop: -8, marginBottom: 16, fontSize: 12, color: '#333' }}>
+            <div style={{ display: 'flex', gap: 16 }}>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={crawl.enabled}
+                  onChange={(e) => setCrawl({ ...crawl, enabled: e.target.checked })}
+                />
+                Crawl same-origin pages
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={wellKnownFiles}
+                  onChange={(e) => setWellKnownFiles(e.target.checked)}
+                />
+                robots.txt, sitemaps &amp; .well-known
+              </label>
+              <label
+                style={{ display: 'flex', alignItems: 'center', gap: 6 }}
+                title="Sends an introspection query to each GraphQL endpoint found"
+              >
+                <input
+                  type="checkbox"
+                  checked={graphqlIntrospection}
+                  onChange={(e) => setGraphqlIntrospection(e.target.checked)}
+                />
+                GraphQL introspection
+              </label>
+              <label style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                <input
+                  type="checkbox"
+                  checked={apiSpecs}
+                  onChange={(e) => setApiSpecs(e.target.checked)}
+                />
+                OpenAPI/Swagger
+              </label>
+            </div>
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginTop: 6 }}>
+              <button
+                onClick={() => handleRecorder(recorder?.recording ? 'stop' : 'start')}
+                title="Record the requests this tab makes; they are merged into the next scan"
+                style={{
+                  padding: '2px 8px',
+                  backgroundColor: recorder?.recording ? '#dc3545' : '#6c757d',
+                  color: 'white',
+                  border: 'none',
+                  borderRadius: 4,
+                  cursor: 'pointer',
+                  fontSize: 12
+                }}
+              >
+                {recorder?.recording ? '■ Stop recording' : '● Record traffic'}
+              </button>
+              <span style={{ color: '#666' }}>
+                {recorder?.entries.length || 0} requests captured
+              </span>
+              {recorder && recorder.entries.length > 0 && (
+                <button
+                  onClick={() => handleRecorder('clear')}
+                  style={{
+                    padding: '2px 8px',
+                    backgroundColor: 'white',
+                    border: '1px solid #ddd',
+                    borderRadius: 4,
+                    cursor: 'pointer',
+                    fontSize: 12
+                  }}
+                >
+                  Clear
+                </button>
+              )}
+              <label
+                title="Add the operations of an OpenAPI or Swagger file (JSON or YAML) to the results"
+                style={{
+                  marginLeft: 'auto',
+                  padding: '2px 8px',
+                  backgroundColor: 'white',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  cursor: 'pointer'
+                }}
+              >
+                Import spec…
+                <input
+                  type="file"
+                  accept=".json,.yaml,.yml"
+                  style={{ display: 'none' }}
+                  onChange={(e) => {
+                    const file = e.target.files?.[0]
+                    if (file) handleSpecImport(file)
+                    e.target.value = ''
+                  }}
+                />
+              </label>
+              <button
+                onClick={() => chrome.runtime.openOptionsPage()}
+                title="Add, disable and test the regular expressions used to find endpoints"
+                style={{
+                  padding: '2px 8px',
+                  backgroundColor: 'white',
+                  border: '1px solid #ddd',
+                  borderRadius: 4,
+                  cursor: 'pointer',
+                  fontSize: 12
+                }}
+              >
+                Rules…
+              </button>
+            </div>
+            {crawl.enabled && (
+              <div style={{ display: 'flex', flexWrap: 'wrap', gap: 8, marginTop: 6 }}>
+                <label>
+                  Depth{' '}
+                  <input
+                    type="number"
+                    min={1}
+                    max={10}
+                    value={crawl.maxDepth}
+                    onChange={(e) => setCrawl({ ...crawl, maxDepth: Number(e.target.value) || 1 })}
+                    style={{ width: 48, padding: 2, border: '1px solid #ddd', borderRadius: 4 }}
+                  />
+                </label>
+                <label>
+                  Max pages{' '}
+                  <input
+                    type="number"
+                    min={1}
+                    max={500}
+                    value={crawl.maxPages}
+                    onChange={(e) => setCrawl({ ...crawl, maxPages: Number(e.target.value) || 1 })}
+                    style={{ width: 56, padding: 2, border: '1px solid #ddd', borderRadius: 4 }}
+                  />
+                </label>
+                <input
+                  type="text"
+                  placeholder="Include paths, e.g. /app/*"
+                  value={crawl.includePatterns.join(', ')}
+                  onChange={(e) => setCrawl({ ...crawl, includePatterns: e.target.value.split(',').map(p => p.trim()) })}
+                  style={{ flex: 1, minWidth: 140, padding: 2, border: '1px solid #ddd', borderRadius: 4 }}
+                />
+                <input
+                  type="text"
+                  placeholder="Exclude paths, e.g. /logout*"
+                  value={crawl.excludePatterns.join(', ')}
+                  onChange={(e) => setCrawl({ ...crawl, excludePatterns: e.target.value.split(',').map(p => p.trim()) })}
+                  style={{ flex: 1, minWidth: 140, padding: 2, border: '1px solid #ddd', borderRadius: 4 }}
+                />
+              </div>
+            )}
+          </div>
+
           {error && (
             <div style={{
               padding: 8,
@@ -654,6 +1194,9 @@ function IndexPopup() {
               }}>
                 <div>
                   <strong>Domain:</strong> {results.domain}<br/>
+                  {results.pagesScanned.length > 1 && (
+                    <><strong>Pages Scanned:</strong> {results.pagesScanned.length}<br/></>
+                  )}
                   <strong>Total Endpoints:</strong> {results.totalCount}
                 </div>
                 <div style={{ display: 'flex', gap: 8 }}>
@@ -686,27 +1229,244 @@ function IndexPopup() {
                     Export CSV
                   </button>
                 </div>
-              </div>
-
-              <div style={{ marginBottom: 12 }}>
-                <label style={{ marginRight: 8, fontSize: 14 }}>Filter:</label>
-                <select
-                  value={filter}
-                  onChange={(e) => setFilter(e.target.value as any)}
-                  style={{
-                    padding: 4,
-                    border: '1px solid #ddd',
-                    borderRadius: 4,
-                    fontSize: 14
-                  }}
-                >
-                  <option value="all">All ({filteredEndpoints.length})</option>
-                  <option value="api">API ({results.endpoints.filter(e => e.type === 'api').length})</option>
-                  <option value="page">Pages ({results.endpoints.filter(e => e.type === 'page').length})</option>
-                  <option value="static">Static ({results.endpoints.filter(e => e.type === 'static').length})</option>
-                  <option value="unknown">Unknown ({results.endpoints.filter(e => e.type === 'unknown').length})</option>
-                </select>
-              </div>
+              </div>
+
+              <div style={{ marginBottom: 12 }}>
+                <label style={{ marginRight: 8, fontSize: 14 }}>Filter:</label>
+                <select
+                  value={filter}
+                  onChange={(e) => setFilter(e.target.value as any)}
+                  style={{
+                    padding: 4,
+                    border: '1px solid #ddd',
+                    borderRadius: 4,
+                    fontSize: 14
+                  }}
+                >
+                  <option value="all">All ({filteredEndpoints.length})</option>
+                  {classOptions.map(id => (
+                    <option key={id} value={id}>{getClassLabel(id, endpointClasses)} ({classCounts.get(id)})</option>
+                  ))}
+                </select>
+                <label style={{ marginLeft: 16, marginRight: 8, fontSize: 14 }}>View:</label>
+                <select
+                  value={view}
+                  onChange={(e) => setView(e.target.value as 'raw' | 'template')}
+                  style={{
+                    padding: 4,
+                    border: '1px solid #ddd',
+                    borderRadius: 4,
+                    fontSize: 14
+                  }}
+                >
+                  <option value="raw">Raw ({results.endpoints.length})</option>
+                  <option value="template">Templates ({results.routeTemplates.length})</option>
+                </select>
+                <label style={{ marginLeft: 16, fontSize: 12 }} title="Hide endpoints on hosts outside the scanned site's registrable domain">
+                  <input
+                    type="checkbox"
+                    checked={hideThirdParty}
+                    onChange={(e) => setHideThirdParty(e.target.checked)}
+                    style={{ marginRight: 4 }}
+                  />
+                  Hide third-party ({results.endpoints.filter(e => e.party === 'third-party').length})
+                </label>
+              </div>
+
+              {results.hosts.length > 0 && (
+                <div style={{
+                  padding: 8,
+                  marginBottom: 12,
+                  backgroundColor: '#f8f9fa',
+                  border: '1px solid #e9ecef',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  color: '#333'
+                }}>
+                  <div onClick={() => setShowHosts(!showHosts)} style={{ fontWeight: 'bold', cursor: 'pointer' }}>
+                    {showHosts ? '▼' : '▶'} Hosts ({results.hosts.length}):{' '}
+                    {results.hosts.filter(h => h.relation !== 'third-party').length} on this site,{' '}
+                    {results.hosts.filter(h => h.relation === 'third-party').length} third-party
+                  </div>
+                  {showHosts && results.hosts.map(host => (
+                    <div key={host.host} style={{ display: 'flex', gap: 8, marginTop: 4, fontFamily: 'monospace', fontSize: 11 }}>
+                      <span style={{
+                        width: 80,
+                        color: host.relation === 'first-party' ? '#28a745' : host.relation === 'same-org' ? '#007bff' : '#6c757d'
+                      }}>
+                        {host.relation}
+                      </span>
+                      <span style={{ flex: 1, wordBreak: 'break-all' }}>{host.host}</span>
+                      <span style={{ color: '#666' }}>{host.registrableDomain}</span>
+                      <span style={{ width: 40, textAlign: 'right', color: '#666' }}>{host.endpointCount}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {results.skippedFiles.length > 0 && (
+                <div style={{
+                  padding: 8,
+                  marginBottom: 12,
+                  backgroundColor: '#f8f9fa',
+                  border: '1px solid #e9ecef',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  color: '#333'
+                }}>
+                  <div onClick={() => setShowSkipped(!showSkipped)} style={{ fontWeight: 'bold', cursor: 'pointer' }}>
+                    {showSkipped ? '▼' : '▶'} Skipped files ({results.skippedFiles.length})
+                  </div>
+                  {showSkipped && results.skippedFiles.map(skipped => (
+                    <div key={skipped.url} style={{ display: 'flex', gap: 8, marginTop: 4, fontSize: 11 }}>
+                      <span style={{ flex: 1, fontFamily: 'monospace', wordBreak: 'break-all' }}>{skipped.url}</span>
+                      <span style={{ color: '#856404' }}>{skipped.reason}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {results.sourceMaps.length > 0 && (
+                <div style={{
+                  padding: 8,
+                  backgroundColor: '#fff3cd',
+                  border: '1px solid #ffeeba',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  color: '#856404'
+                }}>
+                  <strong>Exposed source maps ({results.sourceMaps.length})</strong>
+                  {results.sourceMaps.map((map, index) => (
+                    <div key={index} style={{ marginTop: 4, wordBreak: 'break-all' }}>
+                      {map.mapUrl}
+                      <span style={{ color: '#666', fontSize: 11 }}>
+                        {' '}• via {map.discoveredVia} • {map.sourcesWithContent}/{map.sourceCount} sources embedded
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {(results.graphql.endpoints.length > 0 || results.graphql.operations.length > 0) && (
+                <div style={{
+                  padding: 8,
+                  backgroundColor: '#fdf0f8',
+                  border: '1px solid #f5c2e0',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  color: '#333',
+                  maxHeight: 180,
+                  overflowY: 'auto'
+                }}>
+                  <strong style={{ color: '#e535ab' }}>
+                    GraphQL ({results.graphql.endpoints.length} endpoints, {results.graphql.operations.length} operations in bundles)
+                  </strong>
+                  {results.graphql.endpoints.map(endpoint => (
+                    <div key={endpoint} style={{ marginTop: 4, wordBreak: 'break-all' }}>{endpoint}</div>
+                  ))}
+                  {results.graphql.operations.map(op => (
+                    <div
+                      key={`${op.kind}:${op.name}`}
+                      title={`${op.source}:${op.line}`}
+                      style={{ marginTop: 2, fontFamily: 'monospace', fontSize: 11 }}
+                    >
+                      <span style={{ color: op.kind === 'mutation' ? '#dc3545' : '#0b5ed7' }}>{op.kind}</span>{' '}
+                      {op.name}
+                      {op.variables.length > 0 && `(${op.variables.map(v => `$${v.name}: ${v.type || '?'}`).join(', ')})`}
+                      {op.rootFields.length > 0 && <span style={{ color: '#666' }}> → {op.rootFields.join(', ')}</span>}
+                    </div>
+                  ))}
+                  {results.graphql.schemas.map(schema => (
+                    <div key={schema.endpoint} style={{ marginTop: 6 }}>
+                      <div
+                        onClick={() => setExpandedSchemas({ ...expandedSchemas, [schema.endpoint]: !expandedSchemas[schema.endpoint] })}
+                        style={{ cursor: 'pointer', fontWeight: 'bold', wordBreak: 'break-all' }}
+                      >
+                        {expandedSchemas[schema.endpoint] ? '▼' : '▶'} Schema: {schema.endpoint}
+                        <span style={{ fontWeight: 'normal', color: '#666' }}>
+                          {' '}• {schema.queries.length} queries • {schema.mutations.length} mutations • {schema.subscriptions.length} subscriptions
+                        </span>
+                      </div>
+                      {expandedSchemas[schema.endpoint] && (
+                        ([['query', schema.queries], ['mutation', schema.mutations], ['subscription', schema.subscriptions]] as const)
+                          .flatMap(([kind, fields]) => fields.map(field => (
+                            <div
+                              key={`${kind}:${field.name}`}
+                              title={field.description}
+                              style={{ marginLeft: 12, fontFamily: 'monospace', fontSize: 11 }}
+                            >
+                              <span style={{ color: kind === 'mutation' ? '#dc3545' : '#0b5ed7' }}>{kind}</span>{' '}
+                              {field.name}
+                              {field.args.length > 0 && `(${field.args.map(a => `${a.name}: ${a.type}`).join(', ')})`}
+                              <span style={{ color: '#666' }}>: {field.type}</span>
+                            </div>
+                          )))
+                      )}
+                    </div>
+                  ))}
+                  {results.graphql.introspectionErrors.map(({ endpoint, error }) => (
+                    <div key={endpoint} style={{ marginTop: 4, color: '#856404', wordBreak: 'break-all' }}>
+                      Introspection failed for {endpoint}: {error}
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {results.apiSpecs.length > 0 && (
+                <div style={{
+                  padding: 8,
+                  backgroundColor: '#e8f5e9',
+                  border: '1px solid #c3e6cb',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  color: '#155724'
+                }}>
+                  <strong>API specs ({results.apiSpecs.length})</strong>
+                  {results.apiSpecs.map(spec => (
+                    <div key={spec.url} style={{ marginTop: 4, wordBreak: 'break-all' }}>
+                      {spec.title ? `${spec.title} — ` : ''}{spec.url}
+                      <span style={{ color: '#666', fontSize: 11 }}>
+                        {' '}• v{spec.version} • {spec.operationCount} operations
+                        {spec.foundVia && ` • via ${spec.foundVia}`}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
+
+              {results.secrets.length > 0 && (
+                <div style={{
+                  padding: 8,
+                  backgroundColor: '#f8d7da',
+                  border: '1px solid #f5c6cb',
+                  borderRadius: 4,
+                  fontSize: 12,
+                  color: '#721c24',
+                  maxHeight: 140,
+                  overflowY: 'auto'
+                }}>
+                  <strong>Possible secrets ({results.secrets.length})</strong>
+                  {results.secrets.map((secret, index) => (
+                    <div key={index} style={{ marginTop: 4, wordBreak: 'break-all' }}>
+                      <span style={{
+                        padding: '1px 4px',
+                        marginRight: 4,
+                        borderRadius: 3,
+                        fontSize: 10,
+                        fontWeight: 'bold',
+                        color: 'white',
+                        backgroundColor: getSeverityColor(secret.severity)
+                      }}>
+                        {secret.severity.toUpperCase()}
+                      </span>
+                      {secret.rule}{secret.name ? ` (${secret.name})` : ''}: <code>{secret.maskedValue}</code>
+                      <span style={{ color: '#666', fontSize: 11 }}>
+                        {' '}• {secret.source}:{secret.line}
+                      </span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -723,16 +1483,102 @@ function IndexPopup() {
         {loading && (
           <div style={{
             display: 'flex',
+            flexDirection: 'column',
             justifyContent: 'center',
             alignItems: 'center',
             height: '100%',
             color: '#666'
           }}>
             Scanning website for endpoints...
+            {scanProgress && scanProgress.total > 0 && (
+              <div style={{ width: '80%', marginTop: 8 }}>
+                <div style={{
+                  width: '100%',
+                  height: 6,
+                  background: '#e2e8f0',
+                  borderRadius: 3,
+                  overflow: 'hidden',
+                  marginBottom: 4
+                }}>
+                  <div style={{
+                    width: `${(scanProgress.processed / scanProgress.total) * 100}%`,
+                    height: '100%',
+                    background: '#007bff',
+                    transition: 'width 0.3s ease'
+                  }} />
+                </div>
+                <div style={{ fontSize: 11, textAlign: 'center', wordBreak: 'break-all' }}>
+                  {scanProgress.source} ({Math.round((scanProgress.processed / scanProgress.total) * 100)}%)
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+
+        {results && !loading && view === 'template' && (
+          <div style={{ padding: 8 }}>
+            {filteredTemplates.length === 0 ? (
+              <div style={{ textAlign: 'center', color: '#666', padding: 20 }}>
+                No endpoints found matching the current filter.
+              </div>
+            ) : (
+              filteredTemplates.map(route => (
+                <div
+                  key={route.template}
+                  onClick={() => setExpandedTemplates(prev => ({ ...prev, [route.template]: !prev[route.template] }))}
+                  style={{
+                    padding: 8,
+                    borderBottom: '1px solid #eee',
+                    fontSize: 13,
+                    cursor: route.count > 1 ? 'pointer' : 'default'
+                  }}
+                >
+                  <div style={{ marginBottom: 4 }}>
+                    <strong style={{ color: '#007bff' }}>{route.template}</strong>
+                    {route.methods.map(method => (
+                      <span key={method} style={{
+                        marginLeft: 8,
+                        padding: '2px 6px',
+                        backgroundColor: '#e9ecef',
+                        borderRadius: 3,
+                        fontSize: 11
+                      }}>
+                        {method}
+                      </span>
+                    ))}
+                    <span style={{
+                      marginLeft: 8,
+                      padding: '2px 6px',
+                      backgroundColor: getTypeColor(route.type, endpointClasses),
+                      color: 'white',
+                      borderRadius: 3,
+                      fontSize: 11
+                    }}>
+                      {route.type.toUpperCase()}
+                    </span>
+                    {route.count > 1 && (
+                      <span style={{ marginLeft: 8, color: '#666', fontSize: 11 }}>
+                        {route.count} URLs {expandedTemplates[route.template] ? '▲' : '▼'}
+                      </span>
+                    )}
+                  </div>
+                  {expandedTemplates[route.template] && route.count > 1 && (
+                    <div style={{ color: '#666', fontSize: 11, fontFamily: 'monospace' }}>
+                      {route.examples.map(example => (
+                        <div key={example} style={{ wordBreak: 'break-all' }}>{example}</div>
+                      ))}
+                      {route.count > route.examples.length && (
+                        <div>… and {route.count - route.examples.length} more</div>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
           </div>
         )}
 
-        {results && !loading && (
+        {results && !loading && view === 'raw' && (
           <div style={{ padding: 8 }}>
             {filteredEndpoints.length === 0 ? (
               <div style={{ textAlign: 'center', color: '#666', padding: 20 }}>
@@ -764,18 +1610,175 @@ function IndexPopup() {
                     <span style={{
                       marginLeft: 8,
                       padding: '2px 6px',
-                      backgroundColor: getTypeColor(endpoint.type),
+                      backgroundColor: getTypeColor(endpoint.type, endpointClasses),
                       color: 'white',
                       borderRadius: 3,
                       fontSize: 11
                     }}>
                       {endpoint.type.toUpperCase()}
                     </span>
+                    {endpoint.protocol && (
+                      <span
+                        title="Channel protocol"
+                        style={{
+                          marginLeft: 4,
+                          padding: '2px 6px',
+                          backgroundColor: '#e7f8fc',
+                          color: '#087990',
+                          borderRadius: 3,
+                          fontSize: 11
+                        }}>
+                        {endpoint.protocol}
+                      </span>
+                    )}
+                    {(endpoint.classes || []).filter(id => id !== endpoint.type).map(id => (
+                      <span
+                        key={id}
+                        title={getClassLabel(id, endpointClasses)}
+                        style={{
+                          marginLeft: 4,
+                          padding: '1px 5px',
+                          border: `1px solid ${getTypeColor(id, endpointClasses)}`,
+                          color: getTypeColor(id, endpointClasses),
+                          borderRadius: 3,
+                          fontSize: 10
+                        }}>
+                        {id.toUpperCase()}
+                      </span>
+                    ))}
+                    {endpoint.composed && (
+                      <span
+                        title="Rebuilt from concatenated or templated pieces"
+                        style={{
+                          marginLeft: 8,
+                          padding: '2px 6px',
+                          backgroundColor: '#6f42c1',
+                          color: 'white',
+                          borderRadius: 3,
+                          fontSize: 11
+                        }}>
+                        COMPOSED
+                      </span>
+                    )}
+                    {(endpoint.tags || []).map(tag => (
+                      <span
+                        key={tag}
+                        style={{
+                          marginLeft: 8,
+                          padding: '2px 6px',
+                          backgroundColor: tag === 'no-csrf-token' ? '#dc3545' : tag === 'disallowed' ? '#fd7e14' : '#e9ecef',
+                          color: tag === 'disallowed' || tag === 'no-csrf-token' ? 'white' : '#333',
+                          borderRadius: 3,
+                          fontSize: 11
+                        }}>
+                        {tag.toUpperCase()}
+                      </span>
+                    ))}
                   </div>
                   <div style={{ color: '#666', fontSize: 11 }}>
                     Source: {endpoint.source}
                     {endpoint.line && ` • Line: ${endpoint.line}`}
+                    {endpoint.party && endpoint.party !== 'first-party' && ` • ${endpoint.host} (${endpoint.party})`}
+                    {endpoint.occurrences && endpoint.occurrences.some(o => o.snippet) && (
+                      <span
+                        onClick={() => setExpandedOccurrences({
+                          ...expandedOccurrences,
+                          [`${endpoint.method}:${endpoint.url}`]: !expandedOccurrences[`${endpoint.method}:${endpoint.url}`]
+                        })}
+                        style={{ color: '#007bff', cursor: 'pointer' }}
+                      >
+                        {` • ${endpoint.occurrences.length} reference${endpoint.occurrences.length === 1 ? '' : 's'} `}
+                        {expandedOccurrences[`${endpoint.method}:${endpoint.url}`] ? '▲' : '▼'}
+                      </span>
+                    )}
+                    {endpoint.status !== undefined && ` • Status: ${endpoint.status}`}
+                    {endpoint.contentType && ` • ${endpoint.contentType}`}
+                    {endpoint.enctype && ` • Enctype: ${endpoint.enctype}`}
+                    {endpoint.requestBody && (
+                      <span title={JSON.stringify(endpoint.requestBody.schema, null, 2)}>
+                        {` • Body: ${endpoint.requestBody.contentType}`}
+                      </span>
+                    )}
                   </div>
+                  {expandedOccurrences[`${endpoint.method}:${endpoint.url}`] && endpoint.occurrences && (
+                    <div style={{ marginTop: 4 }}>
+                      {endpoint.occurrences.map((occurrence, i) => (
+                        <div key={i} style={{ marginBottom: 6 }}>
+                          <div style={{ color: '#666', fontSize: 11 }}>
+                            {occurrence.source}
+                            {occurrence.line !== undefined && `:${occurrence.line}`}
+                            {occurrence.column !== undefined && `:${occurrence.column + 1}`}
+                          </div>
+                          {occurrence.snippet && (
+                            <pre style={{
+                              margin: '2px 0 0 0',
+                              padding: 6,
+                              backgroundColor: '#f8f9fa',
+                              border: '1px solid #e9ecef',
+                              borderRadius: 4,
+                              fontSize: 11,
+                              overflowX: 'auto',
+                              whiteSpace: 'pre'
+                            }}>
+                              {occurrence.snippet.map((line, j) => {
+                                const lineNumber = occurrence.line !== undefined ? `${occurrence.line - occurrence.snippetLine + j}`.padStart(5) + '  ' : ''
+                                if (j !== occurrence.snippetLine || !occurrence.highlight) {
+                                  return <div key={j} style={{ color: '#666' }}>{lineNumber}{line}</div>
+                                }
+                                const [start, end] = occurrence.highlight
+                                return (
+                                  <div key={j} style={{ color: '#222' }}>
+                                    {lineNumber}{line.slice(0, start)}
+                                    <mark style={{ backgroundColor: '#fff3a0' }}>{line.slice(start, end)}</mark>
+                                    {line.slice(end)}
+                                  </div>
+                                )
+                              })}
+                            </pre>
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                  {results.pagesScanned.length > 1 && endpoint.foundOn && endpoint.foundOn.length > 0 && (
+                    <div style={{ color: '#666', fontSize: 11 }} title={endpoint.foundOn.join('\n')}>
+                      Found on: {new URL(endpoint.foundOn[0]).pathname}
+                      {endpoint.foundOn.length > 1 && ` (+${endpoint.foundOn.length - 1} more)`}
+                    </div>
+                  )}
+                  {endpoint.parameters && endpoint.parameters.length > 0 && (
+                    <div style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: 4, marginTop: 4, fontSize: 11 }}>
+                      <span style={{ color: '#666' }}>Params:</span>
+                      {endpoint.parameters.map(parameter => {
+                        const entry = results.parameters.find(p =>
+                          p.endpoint === endpoint.url && p.name === parameter.name && p.location === parameter.location
+                        )
+                        return (
+                          <span
+                            key={`${parameter.location}:${parameter.name}`}
+                            onClick={() => sendParameterToLfi(endpoint, parameter.name)}
+                            title={[
+                              `Location: ${parameter.location}`,
+                              parameter.inputType ? `Input type: ${parameter.inputType}` : '',
+                              entry?.examples.length ? `Examples: ${entry.examples.join(', ')}` : '',
+                              'Click to load into the LFI scanner'
+                            ].filter(Boolean).join('\n')}
+                            style={{
+                              padding: '1px 6px',
+                              backgroundColor: '#e7f1ff',
+                              color: '#0b5ed7',
+                              border: '1px solid #b6d4fe',
+                              borderRadius: 3,
+                              fontFamily: 'monospace',
+                              cursor: 'pointer'
+                            }}>
+                            {parameter.name}
+                            {parameter.example !== undefined && parameter.example !== '' && `=${parameter.example}`}
+                          </span>
+                        )
+                      })}
+                    </div>
+                  )}
                 </div>
               ))
             )}
@@ -783,6 +1786,29 @@ function IndexPopup() {
         )}
       </div>
 
+      {/* Request limits for active scans */}
+      <div style={{ marginTop: 16, padding: '10px 12px', background: '#f1f5f9', border: '1px solid #e2e8f0', borderRadius: 8 }}>
+        <div style={{ fontSize: 12, fontWeight: 700, color: '#334155', marginBottom: 6 }}>
+          Request Limits
+          <span style={{ fontWeight: 400, color: '#64748b' }}> – apply to LFI and file scans, including ones already running</span>
+        </div>
+        <div style={{ display: 'flex', flexWrap: 'wrap', gap: 10 }}>
+          {SCHEDULER_FIELDS.map(field => (
+            <label key={field.key} style={{ display: 'flex', alignItems: 'center', gap: 4, fontSize: 11, color: '#475569', fontWeight: 600 }}>
+              {field.label}
+              <input
+                type="number"
+                min={field.min}
+                step={field.step}
+                value={schedulerSettings[field.key]}
+                onChange={(e) => updateSchedulerSetting(field.key, Number(e.target.value))}
+                style={{ width: 64, padding: '2px 6px', border: '1px solid #cbd5e1', borderRadius: 6, fontSize: 11 }}
+              />
+            </label>
+          ))}
+        </div>
+      </div>
+
       {/* LFI Scanner */}
       <div style={{ marginTop: 16 }}>
         <div style={{ 
@@ -810,20 +1836,41 @@ function IndexPopup() {
             {wordlistLoading && (
               <div style={{ fontSize: 11, color: '#64748b', display: 'flex', alignItems: 'center', gap: 6 }}>
                 <span style={{ fontSize: 14 }}>⏳</span>
-                Loading wordlist...
+                Loading wordlists...
               </div>
             )}
-            {!wordlistLoading && wordlist.length > 0 && (
+            {!wordlistLoading && selectedPayloads.payloads.length > 0 && (
               <div style={{ fontSize: 11, color: '#10b981', fontWeight: 600 }}>
-                ✓ {wordlist.length} payloads ready
+                ✓ {selectedPayloads.payloads.length} payloads ready
               </div>
             )}
           </div>
 
+          <div style={{ display: 'flex', alignItems: 'center', gap: 6, marginBottom: 8, fontSize: 11, color: '#475569' }}>
+            <span style={{ fontWeight: 600 }}>Inject into:</span>
+            {([['parameters', 'Query parameters'], ['template', 'Request template']] as const).map(([mode, label]) => (
+              <button
+                key={mode}
+                onClick={() => setLfiMode(mode)}
+                style={{
+                  padding: '2px 10px',
+                  border: `1px solid ${lfiMode === mode ? '#ef4444' : '#cbd5e1'}`,
+                  borderRadius: 6,
+                  background: lfiMode === mode ? '#fef2f2' : 'white',
+                  color: lfiMode === mode ? '#b91c1c' : '#475569',
+                  cursor: 'pointer',
+                  fontSize: 11
+                }}
+              >
+                {label}
+              </button>
+            ))}
+          </div>
+
           <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
             <input
               type="text"
-              placeholder="Target URL (leave blank to use above)"
+              placeholder={lfiMode === 'template' ? "Base URL for templates without a Host header" : "Target URL (leave blank to use above)"}
               value={lfiUrl}
               onChange={(e) => setLfiUrl(e.target.value)}
               style={{ 
@@ -838,23 +1885,25 @@ function IndexPopup() {
               onFocus={(e) => e.target.style.borderColor = '#ef4444'}
               onBlur={(e) => e.target.style.borderColor = '#e2e8f0'}
             />
-            <input
-              type="text"
-              placeholder="Parameter"
-              value={lfiParam}
-              onChange={(e) => setLfiParam(e.target.value)}
-              style={{ 
-                width: 130, 
-                padding: '10px 14px', 
-                border: '2px solid #e2e8f0', 
-                borderRadius: 8, 
-                fontSize: 14,
-                transition: 'all 0.2s',
-                outline: 'none'
-              }}
-              onFocus={(e) => e.target.style.borderColor = '#ef4444'}
-              onBlur={(e) => e.target.style.borderColor = '#e2e8f0'}
-            />
+            {lfiMode === 'parameters' && (
+              <input
+                type="text"
+                placeholder="Parameter"
+                value={lfiParam}
+                onChange={(e) => setLfiParam(e.target.value)}
+                style={{ 
+                  width: 130, 
+                  padding: '10px 14px', 
+                  border: '2px solid #e2e8f0', 
+                  borderRadius: 8, 
+                  fontSize: 14,
+                  transition: 'all 0.2s',
+                  outline: 'none'
+                }}
+                onFocus={(e) => e.target.style.borderColor = '#ef4444'}
+                onBlur={(e) => e.target.style.borderColor = '#e2e8f0'}
+              />
+            )}
             <button
               onClick={handleRunLfi}
               disabled={lfiLoading || wordlistLoading}
@@ -886,10 +1935,52 @@ function IndexPopup() {
                 }
               }}
             >
-              {lfiLoading ? `Scanning... ${currentProgress.current}/${currentProgress.total}` : '🔍 Scan LFI'}
+              {lfiLoading ? `Scanning... ${lfiJob.completedTests}/${lfiJob.totalTests}` : '🔍 Scan LFI'}
             </button>
           </div>
 
+          {lfiMode === 'template' && (
+            <div style={{ marginBottom: 12 }}>
+              <textarea
+                value={lfiTemplate}
+                onChange={(e) => setLfiTemplate(e.target.value)}
+                rows={7}
+                placeholder={'POST /render/§page.html§ HTTP/1.1\nHost: example.com\nCookie: lang=§en§\nX-Template: §default§\nContent-Type: application/json\n\n{"file": "§report.pdf§"}'}
+                style={{ width: '100%', boxSizing: 'border-box', padding: 8, border: '2px solid #e2e8f0', borderRadius: 8, fontSize: 11, fontFamily: 'monospace' }}
+              />
+              <div style={{ display: 'flex', alignItems: 'flex-start', gap: 8, fontSize: 11, color: '#64748b' }}>
+                <div style={{ flex: 1 }}>
+                  {!templatePreview ? (
+                    <>Paste a raw request and wrap each injection point&apos;s original value in § marks.</>
+                  ) : templatePreview.error ? (
+                    <span style={{ color: '#dc2626' }}>{templatePreview.error}</span>
+                  ) : (
+                    <>
+                      {templatePreview.template?.method} {templatePreview.template?.points.length} injection point{templatePreview.template?.points.length === 1 ? '' : 's'}:{' '}
+                      {templatePreview.template?.points.map(point => (
+                        <span key={point.name} style={{ display: 'inline-block', marginRight: 6, fontFamily: 'monospace', color: '#b91c1c' }}>
+                          {point.name}
+                        </span>
+                      ))}
+                    </>
+                  )}
+                </div>
+                <button
+                  onClick={() => {
+                    try {
+                      setLfiTemplate(templateFromUrl(lfiUrl.trim() || url.trim()))
+                    } catch {
+                      setError("Enter a valid target URL to build a template from")
+                    }
+                  }}
+                  style={{ padding: '2px 10px', border: '1px solid #cbd5e1', borderRadius: 6, background: 'white', cursor: 'pointer', fontSize: 11, whiteSpace: 'nowrap' }}
+                >
+                  From URL
+                </button>
+              </div>
+            </div>
+          )}
+
           <div style={{ display: 'flex', alignItems: 'center', gap: 12, marginBottom: 12, padding: '8px 12px', background: '#f1f5f9', borderRadius: 8 }}>
             <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#475569', fontWeight: 600 }}>
               Payload Limit:
@@ -909,12 +2000,145 @@ function IndexPopup() {
                 fontWeight: 600
               }} 
             />
-            <div style={{ fontSize: 11, color: '#64748b', marginLeft: 'auto' }}>
-              Using SecLists LFI-Jhaddix wordlist
+            <button
+              onClick={() => chrome.runtime.openOptionsPage()}
+              style={{ marginLeft: 'auto', padding: '2px 10px', border: '1px solid #cbd5e1', borderRadius: 6, background: 'white', cursor: 'pointer', fontSize: 11 }}
+            >
+              Manage wordlists
+            </button>
+          </div>
+
+          <div style={{ marginBottom: 12, padding: '8px 12px', background: '#f1f5f9', borderRadius: 8, fontSize: 11, color: '#475569' }}>
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>Payload categories</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 12px', marginBottom: 8 }}>
+              {LFI_PAYLOAD_CATEGORIES.map(category => (
+                <label key={category.id} title={category.description} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                  <input
+                    type="checkbox"
+                    checked={wordlistSelection.categoryIds.includes(category.id)}
+                    onChange={() => updateWordlistSelection({
+                      ...wordlistSelection,
+                      categoryIds: toggleItem(wordlistSelection.categoryIds, category.id)
+                    })}
+                  />
+                  {category.label}
+                </label>
+              ))}
+            </div>
+            <div style={{ fontWeight: 600, marginBottom: 4 }}>Wordlists</div>
+            <div style={{ display: 'flex', flexWrap: 'wrap', gap: '4px 12px' }}>
+              {wordlists.map(list => (
+                <label key={list.id} title={list.description} style={{ display: 'flex', alignItems: 'center', gap: 4 }}>
+                  <input
+                    type="checkbox"
+                    checked={wordlistSelection.listIds.includes(list.id)}
+                    onChange={() => updateWordlistSelection({
+                      ...wordlistSelection,
+                      listIds: toggleItem(wordlistSelection.listIds, list.id)
+                    })}
+                  />
+                  {list.name} ({list.payloads.length}){!list.builtIn && ' · imported'}
+                </label>
+              ))}
             </div>
           </div>
 
-          {lfiLoading && currentProgress.total > 0 && (
+          <div style={{ marginBottom: 12, padding: '8px 12px', background: '#f1f5f9', borderRadius: 8, fontSize: 11, color: '#475569' }}>
+            <label style={{ display: 'flex', alignItems: 'center', gap: 4, fontWeight: 600 }}>
+              <input type="checkbox" checked={includeVariants} onChange={(e) => setIncludeVariants(e.target.checked)} />
+              Add generated traversal variants ({variantList.payloads.length})
+            </label>
+            {includeVariants && (
+              <div style={{ display: 'flex', flexDirection: 'column', gap: 6, marginTop: 6 }}>
+                <div style={{ display: 'flex', alignItems: 'center', gap: 6 }}>
+                  Files
+                  <input
+                    type="text"
+                    value={mutationOptions.targetFiles.join(', ')}
+                    onChange={(e) => setMutationOptions({ ...mutationOptions, targetFiles: e.target.value.split(',').map(file => file.trim()) })}
+                    placeholder="etc/passwd, windows/win.ini"
+                    style={{ flex: 1, padding: '2px 6px', border: '1px solid #cbd5e1', borderRadius: 6, fontSize: 11, fontFamily: 'monospace' }}
+                  />
+                  Depth
+                  {(['minDepth', 'maxDepth'] as const).map(key => (
+                    <input
+                      key={key}
+                      type="number"
+                      min={1}
+                      max={MAX_TRAVERSAL_DEPTH}
+                      value={mutationOptions[key]}
+                      onChange={(e) => setMutationOptions({ ...mutationOptions, [key]: Number(e.target.value) || 1 })}
+                      style={{ width: 44, padding: '2px 6px', border: '1px solid #cbd5e1', borderRadius: 6, fontSize: 11 }}
+                    />
+                  ))}
+                </div>
+                {[
+                  { label: 'Separators', key: 'separators' as const, choices: TRAVERSAL_SEPARATORS },
+                  { label: 'Encodings', key: 'encodings' as const, choices: TRAVERSAL_ENCODINGS },
+                  { label: 'Suffixes', key: 'suffixes' as const, choices: TRAVERSAL_SUFFIXES }
+                ].map(dimension => (
+                  <div key={dimension.key} style={{ display: 'flex', flexWrap: 'wrap', alignItems: 'center', gap: '2px 10px' }}>
+                    <span style={{ fontWeight: 600 }}>{dimension.label}</span>
+                    {dimension.choices.map(choice => (
+                      <label key={choice.id} style={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+                        <input
+                          type="checkbox"
+                          checked={(mutationOptions[dimension.key] as string[]).includes(choice.id)}
+                          onChange={() => setMutationOptions({
+                            ...mutationOptions,
+                            [dimension.key]: toggleItem(mutationOptions[dimension.key] as string[], choice.id)
+                          })}
+                        />
+                        <span style={{ fontFamily: dimension.key === 'separators' ? 'monospace' : undefined }}>{choice.label}</span>
+                      </label>
+                    ))}
+                  </div>
+                ))}
+                <div style={{ display: 'flex', gap: 12 }}>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 3 }}>
+                    <input
+                      type="checkbox"
+                      checked={mutationOptions.absolute}
+                      onChange={(e) => setMutationOptions({ ...mutationOptions, absolute: e.target.checked })}
+                    />
+                    Absolute paths
+                  </label>
+                  <label style={{ display: 'flex', alignItems: 'center', gap: 3 }} title="e.g. images/../../etc/passwd for images/logo.png">
+                    <input
+                      type="checkbox"
+                      checked={mutationOptions.preservePrefix}
+                      onChange={(e) => setMutationOptions({ ...mutationOptions, preservePrefix: e.target.checked })}
+                    />
+                    Keep the original value&apos;s directory
+                  </label>
+                </div>
+                {variantList.payloads.length > payloadCap && (
+                  <div style={{ color: '#b45309' }}>
+                    More variants than the payload limit; only the first {payloadCap} payloads overall are sent.
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+
+          {lfiJobs.length > 1 && (
+            <div style={{ display: 'flex', alignItems: 'center', gap: 8, marginBottom: 12, fontSize: 12, color: '#475569' }}>
+              <span style={{ fontWeight: 600 }}>Scan:</span>
+              <select
+                value={lfiJob?.id || ''}
+                onChange={(e) => setLfiJob(lfiJobs.find(job => job.id === e.target.value) || null)}
+                style={{ flex: 1, padding: '4px 8px', border: '1px solid #cbd5e1', borderRadius: 6, fontSize: 12 }}
+              >
+                {lfiJobs.map(job => (
+                  <option key={job.id} value={job.id}>
+                    {new Date(job.createdAt).toLocaleString()} – {job.targetUrl} ({job.status})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          {lfiJob && (lfiJob.status === 'running' || lfiJob.status === 'paused') && lfiJob.totalTests > 0 && (
             <div style={{ marginBottom: 12 }}>
               <div style={{ 
                 width: '100%', 
@@ -925,15 +2149,33 @@ function IndexPopup() {
                 marginBottom: 6
               }}>
                 <div style={{ 
-                  width: `${(currentProgress.current / currentProgress.total) * 100}%`, 
+                  width: `${(lfiJob.completedTests / lfiJob.totalTests) * 100}%`, 
                   height: '100%', 
                   background: 'linear-gradient(90deg, #ef4444 0%, #dc2626 100%)',
                   transition: 'width 0.3s ease',
                   borderRadius: 4
                 }} />
               </div>
-              <div style={{ fontSize: 11, color: '#64748b', textAlign: 'center' }}>
-                Testing payload {currentProgress.current} of {currentProgress.total}
+              <div style={{ display: 'flex', alignItems: 'center', gap: 8, fontSize: 11, color: '#64748b' }}>
+                <span style={{ flex: 1, textAlign: 'center' }}>
+                  {lfiJob.status === 'paused' ? 'Paused at' : 'Testing'} payload {lfiJob.completedTests} of {lfiJob.totalTests}
+                  {' '}– keeps running with the popup closed
+                  {lfiJob.status === 'running' && lfiJob.stats && (
+                    <span style={{ display: 'block', marginTop: 2 }}>{formatSchedulerStats(lfiJob.stats)}</span>
+                  )}
+                </span>
+                <button
+                  onClick={() => handleLfiJobAction(lfiJob.status === 'paused' ? 'resume' : 'pause')}
+                  style={{ padding: '2px 10px', border: '1px solid #cbd5e1', borderRadius: 6, background: 'white', cursor: 'pointer', fontSize: 11 }}
+                >
+                  {lfiJob.status === 'paused' ? 'Resume' : 'Pause'}
+                </button>
+                <button
+                  onClick={() => handleLfiJobAction('cancel')}
+                  style={{ padding: '2px 10px', border: '1px solid #fca5a5', borderRadius: 6, background: 'white', color: '#dc2626', cursor: 'pointer', fontSize: 11 }}
+                >
+                  Cancel
+                </button>
               </div>
             </div>
           )}
@@ -959,6 +2201,11 @@ function IndexPopup() {
                   ) : (
                     <>✓ No LFI vulnerabilities detected ({lfiResults.totalTests} tested)</>
                   )}
+                  {lfiResults.wordlists.length > 0 && (
+                    <div style={{ fontSize: 11, fontWeight: 400, color: '#475569', marginTop: 4 }}>
+                      {lfiResults.payloadCount} payloads from {lfiResults.wordlists.map(w => `${w.name} (${w.payloadCount})`).join(', ')}
+                    </div>
+                  )}
                 </div>
                 <div style={{ display: 'flex', gap: 8 }}>
                   <button
@@ -1323,6 +2570,172 @@ function IndexPopup() {
           )}
         </div>
       </div>
+
+      {/* Exposure Scanner */}
+      <div style={{ marginTop: 16 }}>
+        <div style={{
+          background: 'linear-gradient(135deg, #ffffff 0%, #f8fafc 100%)',
+          border: '2px solid #e2e8f0',
+          borderRadius: 12,
+          padding: 16,
+          boxShadow: '0 4px 12px rgba(0,0,0,0.08)'
+        }}>
+          <div style={{ display: 'flex', alignItems: 'center', gap: 10, marginBottom: 16 }}>
+            <div style={{
+              background: 'linear-gradient(135deg, #8b5cf6 0%, #7c3aed 100%)',
+              color: 'white',
+              fontWeight: 800,
+              fontSize: 14,
+              padding: '6px 12px',
+              borderRadius: 6,
+              boxShadow: '0 2px 4px rgba(139,92,246,0.3)'
+            }}>📂 Files</div>
+            <div style={{ color: '#1e293b', fontWeight: 700, fontSize: 15 }}>
+              Sensitive File Exposure Scanner
+            </div>
+          </div>
+
+          <div style={{ display: 'flex', gap: 8, marginBottom: 12 }}>
+            <input
+              type="text"
+              placeholder="Target URL (leave blank to use above)"
+              value={exposureUrl}
+              onChange={(e) => setExposureUrl(e.target.value)}
+              style={{
+                flex: 1,
+                padding: '10px 14px',
+                border: '2px solid #e2e8f0',
+                borderRadius: 8,
+                fontSize: 14,
+                outline: 'none'
+              }}
+            />
+            <button
+              onClick={handleRunExposureScan}
+              disabled={exposureLoading}
+              style={{
+                padding: '10px 20px',
+                background: exposureLoading
+                  ? 'linear-gradient(135deg, #cbd5e1 0%, #94a3b8 100%)'
+                  : 'linear-gradient(135deg, #8b5cf6 0%, #7c3aed 100%)',
+                color: 'white',
+                border: 'none',
+                borderRadius: 8,
+                cursor: exposureLoading ? 'not-allowed' : 'pointer',
+                fontSize: 14,
+                fontWeight: 700
+              }}
+            >
+              {exposureLoading ? `Checking... ${exposureProgress.current}/${exposureProgress.total}` : '🔍 Scan Files'}
+            </button>
+          </div>
+
+          <label style={{ display: 'flex', alignItems: 'center', gap: 6, fontSize: 12, color: '#475569', marginBottom: 12 }}>
+            <input
+              type="checkbox"
+              checked={includeBackups}
+              onChange={(e) => setIncludeBackups(e.target.checked)}
+            />
+            Try backup copies (.bak, ~, .old) of pages found by the endpoint scan
+          </label>
+
+          {exposureLoading && exposureStats && (
+            <div style={{ fontSize: 11, color: '#64748b', marginBottom: 12, textAlign: 'center' }}>
+              {formatSchedulerStats(exposureStats)}
+            </div>
+          )}
+
+          {exposureResults && (
+            <div>
+              <div style={{
+                display: 'flex',
+                justifyContent: 'space-between',
+                alignItems: 'center',
+                marginBottom: 12,
+                padding: 12,
+                background: exposureResults.findings.some(f => f.detection === 'CONFIRMED')
+                  ? 'linear-gradient(135deg, #fef2f2 0%, #fee2e2 100%)'
+                  : 'linear-gradient(135deg, #f0fdf4 0%, #dcfce7 100%)',
+                borderRadius: 8,
+                border: '1px solid #e2e8f0'
+              }}>
+                <div style={{ fontSize: 13, fontWeight: 700, color: '#0f172a' }}>
+                  {exposureResults.findings.length > 0
+                    ? `${exposureResults.findings.length} exposed file${exposureResults.findings.length > 1 ? 's' : ''} / ${exposureResults.totalChecks} checked`
+                    : `✓ Nothing exposed (${exposureResults.totalChecks} checked)`}
+                </div>
+                <div style={{ display: 'flex', gap: 8 }}>
+                  <button
+                    onClick={() => exportExposureResults('txt')}
+                    style={{
+                      padding: '6px 10px',
+                      background: 'linear-gradient(135deg, #0ea5e9 0%, #0284c7 100%)',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: 6,
+                      fontSize: 11,
+                      cursor: 'pointer',
+                      fontWeight: 600
+                    }}
+                  >
+                    TXT
+                  </button>
+                  <button
+                    onClick={() => exportExposureResults('csv')}
+                    style={{
+                      padding: '6px 10px',
+                      background: 'linear-gradient(135deg, #10b981 0%, #059669 100%)',
+                      color: 'white',
+                      border: 'none',
+                      borderRadius: 6,
+                      fontSize: 11,
+                      cursor: 'pointer',
+                      fontWeight: 600
+                    }}
+                  >
+                    CSV
+                  </button>
+                </div>
+              </div>
+
+              {exposureResults.findings.map(f => (
+                <div
+                  key={f.url}
+                  title={f.sample}
+                  style={{
+                    padding: '8px 10px',
+                    borderRadius: 6,
+                    border: '1px solid #e2e8f0',
+                    background: 'white',
+                    marginBottom: 6,
+                    fontSize: 12
+                  }}
+                >
+                  <div style={{ display: 'flex', alignItems: 'center', gap: 8 }}>
+                    <span style={{
+                      padding: '2px 8px',
+                      borderRadius: 999,
+                      fontSize: 10,
+                      fontWeight: 700,
+                      color: 'white',
+                      background: getSeverityColor(f.severity)
+                    }}>
+                      {f.severity.toUpperCase()}
+                    </span>
+                    <strong>{f.label}</strong>
+                    <span style={{ color: '#64748b', fontSize: 11 }}>{f.detection}</span>
+                  </div>
+                  <div style={{ marginTop: 4, fontFamily: 'monospace', fontSize: 11, wordBreak: 'break-all' }}>{f.url}</div>
+                  <div style={{ color: '#64748b', fontSize: 11 }}>
+                    HTTP {f.status} • {f.contentLength} bytes
+                    {f.indicators.length > 0 && ` • ${f.indicators.join(', ')}`}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
     </div>
   )
 }
@@ -0,0 +1,128 @@
+export type RealtimeProtocol = 'websocket' | 'sse' | 'socket.io' | 'sockjs' | 'signalr' | 'pusher' | 'stomp'
+
+export interface RealtimeChannel {
+  url: string
+  protocol: RealtimeProtocol
+  // STOMP frames (`SUBSCRIBE`, `SEND`) for broker destinations
+  method?: string
+  // Position and length of the URL or destination in the text
+  index: number
+  length: number
+}
+
+interface ChannelPattern {
+  protocol: RealtimeProtocol
+  pattern: RegExp
+  // Capture group holding the URL
+  group: number
+  // Used when the client is created without a URL, e.g. `io()`
+  defaultUrl?: string
+  method?: (match: RegExpMatchArray) => string
+  // `io` is also a common variable and method name; the call only counts
+  // when Socket.IO is imported or configured near it
+  needsSocketIoContext?: boolean
+}
+
+const STRING = /(["'`])((?:(?!\1)[^\\\n]|\\.)*)\1/.source
+
+const SOCKET_IO_IMPORT = /(?:from\s*|require\s*\(\s*)(["'`])socket\.io-client\1|socket\.io(?:\.min)?\.js/
+const SOCKET_IO_HINT = /\/socket\.io\b|\btransports\s*:/
+// How far around an `io(...)` call a hint is looked for
+const SOCKET_IO_HINT_DISTANCE = 500
+
+const hasSocketIoHint = (text: string, index: number): boolean =>
+  SOCKET_IO_HINT.test(text.slice(Math.max(0, index - SOCKET_IO_HINT_DISTANCE), index + SOCKET_IO_HINT_DISTANCE))
+
+// Whether the text loads the Socket.IO client anywhere
+export const importsSocketIo = (text: string): boolean => SOCKET_IO_IMPORT.test(text)
+
+const CHANNEL_PATTERNS: ChannelPattern[] = [
+  // Socket URLs wherever they appear: constants, config objects, `brokerURL`
+  { protocol: 'websocket', pattern: /(["'`])(wss?:\/\/(?:(?!\1)[^\s\\])+)\1/g, group: 2 },
+  { protocol: 'websocket', pattern: new RegExp(`new\\s+(?:window\\.)?WebSocket\\s*\\(\\s*${STRING}`, 'g'), group: 2 },
+  { protocol: 'sse', pattern: new RegExp(`new\\s+(?:window\\.)?EventSource(?:Polyfill)?\\s*\\(\\s*${STRING}`, 'g'), group: 2 },
+  { protocol: 'sockjs', pattern: new RegExp(`new\\s+SockJS\\s*\\(\\s*${STRING}`, 'g'), group: 2 },
+  // `io('https://rt.example.com')`, `io.connect('/chat')`, `io()` (same origin)
+  // Not `x.io(...)`, which is some other object's method
+  {
+    protocol: 'socket.io',
+    pattern: new RegExp(`(?<![\\w$.])io(?:\\.connect)?\\s*\\(\\s*${STRING}`, 'g'),
+    group: 2,
+    needsSocketIoContext: true
+  },
+  {
+    protocol: 'socket.io',
+    pattern: /(?<![\w$.])io(?:\.connect)?\s*\(\s*(\))/g,
+    group: 1,
+    defaultUrl: '/socket.io/',
+    needsSocketIoContext: true
+  },
+  { protocol: 'socket.io', pattern: /\bpath\s*:\s*(["'`])(\/[^"'`]*socket\.io[^"'`]*)\1/g, group: 2 },
+  // SignalR Core `.withUrl('/hubs/chat')` and classic `$.hubConnection('/signalr')`
+  { protocol: 'signalr', pattern: new RegExp(`\\.withUrl\\s*\\(\\s*${STRING}`, 'g'), group: 2 },
+  { protocol: 'signalr', pattern: new RegExp(`\\.hubConnection\\s*\\(\\s*${STRING}`, 'g'), group: 2 },
+  // STOMP destinations on a broker connection
+  {
+    protocol: 'stomp',
+    pattern: /\.(subscribe|send|publish)\s*\(\s*(?:\{\s*destination\s*:\s*)?(["'`])(\/(?:topic|queue|app|user|exchange|amq\/queue|temp-queue)\/[^"'`]*)\2/g,
+    group: 3,
+    method: match => (match[1] === 'subscribe' ? 'SUBSCRIBE' : 'SEND')
+  }
+]
+
+// Template expressions become `{name}` placeholders, as in AST extraction
+const cleanUrl = (raw: string): string =>
+  raw.replace(/\$\{\s*([^}]*?)\s*\}/g, (_, expression: string) => `{${expression.split(/[.\s(]/).pop() || 'param'}}`).trim()
+
+// Pusher connects to a cluster host derived from the app key and options
+const findPusherChannels = (text: string): RealtimeChannel[] => {
+  const channels: RealtimeChannel[] = []
+  for (const match of Array.from(text.matchAll(/new\s+Pusher\s*\(\s*(["'])([^"']+)\1\s*(?:,\s*\{([^}]*)\})?/g))) {
+    const options = match[3] || ''
+    const option = (name: string) => options.match(new RegExp(`\\b${name}\\s*:\\s*["'\`]([^"'\`]+)["'\`]`))?.[1]
+    const host = option('wsHost') || `ws-${option('cluster') || 'mt1'}.pusher.com`
+    const index = match.index + match[0].indexOf(match[2])
+    channels.push({ url: `wss://${host}/app/${match[2]}`, protocol: 'pusher', index, length: match[2].length })
+
+    const authEndpoint = option('authEndpoint')
+    if (authEndpoint) {
+      channels.push({
+        url: authEndpoint,
+        protocol: 'pusher',
+        method: 'POST',
+        index: match.index + match[0].indexOf(authEndpoint),
+        length: authEndpoint.length
+      })
+    }
+  }
+  return channels
+}
+
+/**
+ * Find the realtime channels a client opens: `ws://`/`wss://` URLs,
+ * `WebSocket`, `EventSource` and SockJS constructors, Socket.IO, SignalR
+ * and Pusher setup, and STOMP destinations. Callers scanning one window
+ * of a larger text pass whether the whole text imports Socket.IO.
+ */
+export const findRealtimeChannels = (text: string, socketIoImported = importsSocketIo(text)): RealtimeChannel[] => {
+  const channels: RealtimeChannel[] = []
+  for (const { protocol, pattern, group, defaultUrl, method, needsSocketIoContext } of CHANNEL_PATTERNS) {
+    for (const match of Array.from(text.matchAll(pattern))) {
+      if (needsSocketIoContext && !socketIoImported && !hasSocketIoHint(text, match.index)) continue
+      const raw = match[group]
+      const url = defaultUrl || cleanUrl(raw)
+      if (!url) continue
+      const index = match.index + Math.max(0, match[0].lastIndexOf(raw))
+      channels.push({ url, protocol, index, length: raw.length, ...(method ? { method: method(match) } : {}) })
+    }
+  }
+
+  // A URL written as a bare `wss://` literal inside a constructor call is reported once, by the constructor
+  const merged = [...channels, ...findPusherChannels(text)]
+  return merged.filter((channel, i) =>
+    !(channel.protocol === 'websocket' && merged.some((other, j) =>
+      j !== i && other.index === channel.index && other.protocol !== 'websocket'
+    )) &&
+    merged.findIndex(other => other.index === channel.index && other.protocol === channel.protocol) === i
+  )
+}
@@ -0,0 +1,219 @@
+export interface SchedulerSettings {
+  // Requests in flight at once, across all hosts
+  concurrency: number
+  // Per host; 0 disables the limit
+  requestsPerSecond: number
+  // Random extra delay of up to this many milliseconds before each request
+  jitterMs: number
+  timeoutMs: number
+  // Times a request answered with 429 or 503 is retried after backing off
+  maxRetries: number
+}
+
+export interface SchedulerStats {
+  sent: number
+  completed: number
+  // Network failures and timeouts
+  errors: number
+  // 429 and 503 responses
+  throttled: number
+  retries: number
+  inFlight: number
+  queued: number
+  // Completed requests per second over the last few seconds
+  throughput: number
+  // Set while a host is backing off, as a timestamp
+  backingOffUntil: number | null
+}
+
+export interface RequestScheduler {
+  fetch: (url: string, init?: RequestInit) => Promise<Response>
+  updateSettings: (settings: Partial<SchedulerSettings>) => void
+  getSettings: () => SchedulerSettings
+  getStats: () => SchedulerStats
+}
+
+export const DEFAULT_SCHEDULER_SETTINGS: SchedulerSettings = {
+  concurrency: 4,
+  requestsPerSecond: 10,
+  jitterMs: 100,
+  timeoutMs: 8000,
+  maxRetries: 3
+}
+
+const STORAGE_KEY = 'schedulerSettings'
+const THROUGHPUT_WINDOW = 5000
+// Back-off without a usable Retry-After doubles from this, up to the cap
+const BASE_BACKOFF = 1000
+const MAX_BACKOFF = 60000
+
+interface Task {
+  url: string
+  init?: RequestInit
+  host: string
+  attempt: number
+  resolve: (response: Response) => void
+  reject: (error: unknown) => void
+}
+
+const hostOf = (url: string): string => {
+  try {
+    return new URL(url).host
+  } catch {
+    return ''
+  }
+}
+
+// `Retry-After` is either a number of seconds or an HTTP date
+const retryAfterDelay = (header: string | null): number | null => {
+  if (!header?.trim()) return null
+  const seconds = Number(header)
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return Number.isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+const sleep = (ms: number) => new Promise<void>(resolve => setTimeout(resolve, ms))
+
+/**
+ * Request queue shared by the active scanners. It keeps at most
+ * `concurrency` requests in flight, spaces requests to one host by its
+ * rate limit plus jitter, and backs a host off on 429/503, following
+ * `Retry-After` when the server sends one. Settings can change while
+ * requests are queued; they apply to the next request sent.
+ */
+export const createRequestScheduler = (initial: SchedulerSettings = DEFAULT_SCHEDULER_SETTINGS): RequestScheduler => {
+  let settings = { ...initial }
+  const queue: Task[] = []
+  // Earliest time the next request may go to each host
+  const nextSlot = new Map<string, number>()
+  const backoffUntil = new Map<string, number>()
+  const completions: number[] = []
+  const stats = { sent: 0, completed: 0, errors: 0, throttled: 0, retries: 0 }
+  let inFlight = 0
+  let timer: ReturnType<typeof setTimeout> | null = null
+
+  const readyAt = (host: string) => Math.max(nextSlot.get(host) || 0, backoffUntil.get(host) || 0)
+
+  const send = async (task: Task) => {
+    inFlight += 1
+    stats.sent += 1
+    if (settings.jitterMs > 0) await sleep(Math.random() * settings.jitterMs)
+
+    const controller = new AbortController()
+    const timeout = setTimeout(() => controller.abort(), settings.timeoutMs)
+    try {
+      const response = await fetch(task.url, { ...task.init, signal: controller.signal as AbortSignal })
+      if (response.status === 429 || response.status === 503) {
+        stats.throttled += 1
+        // A scan cannot wait out a day-long Retry-After, so it is capped like the exponential back-off
+        const delay = Math.min(
+          MAX_BACKOFF,
+          retryAfterDelay(response.headers.get('Retry-After')) ?? BASE_BACKOFF * 2 ** task.attempt
+        )
+        backoffUntil.set(task.host, Math.max(backoffUntil.get(task.host) || 0, Date.now() + delay))
+        if (task.attempt < settings.maxRetries) {
+          stats.retries += 1
+          queue.unshift({ ...task, attempt: task.attempt + 1 })
+          return
+        }
+      }
+      stats.completed += 1
+      completions.push(Date.now())
+      task.resolve(response)
+    } catch (error) {
+      stats.errors += 1
+      task.reject(error)
+    } finally {
+      clearTimeout(timeout)
+      inFlight -= 1
+      pump()
+    }
+  }
+
+  const pump = () => {
+    if (timer) clearTimeout(timer)
+    timer = null
+
+    while (inFlight < settings.concurrency && queue.length > 0) {
+      const now = Date.now()
+      const index = queue.findIndex(task => readyAt(task.host) <= now)
+      if (index === -1) {
+        // Every queued host is rate limited or backing off; wake up when the first one frees up
+        const wait = Math.min(...queue.map(task => readyAt(task.host))) - now
+        timer = setTimeout(pump, Math.max(wait, 10))
+        return
+      }
+      const [task] = queue.splice(index, 1)
+      if (settings.requestsPerSecond > 0) nextSlot.set(task.host, now + 1000 / settings.requestsPerSecond)
+      send(task)
+    }
+  }
+
+  return {
+    fetch: (url, init) => new Promise<Response>((resolve, reject) => {
+      queue.push({ url, init, host: hostOf(url), attempt: 0, resolve, reject })
+      pump()
+    }),
+    updateSettings: changes => {
+      settings = { ...settings, ...changes }
+      pump()
+    },
+    getSettings: () => ({ ...settings }),
+    getStats: () => {
+      const now = Date.now()
+      while (completions.length > 0 && completions[0] < now - THROUGHPUT_WINDOW) completions.shift()
+      const backingOff = Math.max(0, ...Array.from(backoffUntil.values()))
+      return {
+        ...stats,
+        inFlight,
+        queued: queue.length,
+        throughput: Math.round((completions.length / (THROUGHPUT_WINDOW / 1000)) * 10) / 10,
+        backingOffUntil: backingOff > now ? backingOff : null
+      }
+    }
+  }
+}
+
+// Values outside these ranges would stall or flood a scan
+export const sanitizeSchedulerSettings = (settings: Partial<SchedulerSettings>): SchedulerSettings => {
+  const merged = { ...DEFAULT_SCHEDULER_SETTINGS, ...settings }
+  const clamp = (value: number, min: number, max: number, fallback: number) =>
+    Number.isFinite(value) ? Math.min(max, Math.max(min, value)) : fallback
+  return {
+    concurrency: Math.round(clamp(merged.concurrency, 1, 50, DEFAULT_SCHEDULER_SETTINGS.concurrency)),
+    requestsPerSecond: clamp(merged.requestsPerSecond, 0, 1000, DEFAULT_SCHEDULER_SETTINGS.requestsPerSecond),
+    jitterMs: clamp(merged.jitterMs, 0, 60000, DEFAULT_SCHEDULER_SETTINGS.jitterMs),
+    timeoutMs: clamp(merged.timeoutMs, 1000, 120000, DEFAULT_SCHEDULER_SETTINGS.timeoutMs),
+    maxRetries: Math.round(clamp(merged.maxRetries, 0, 10, DEFAULT_SCHEDULER_SETTINGS.maxRetries))
+  }
+}
+
+export const loadSchedulerSettings = async (): Promise<SchedulerSettings> => {
+  try {
+    return sanitizeSchedulerSettings((await chrome.storage.local.get(STORAGE_KEY))[STORAGE_KEY] || {})
+  } catch (error) {
+    console.warn('Failed to load scheduler settings, using defaults', error)
+    return { ...DEFAULT_SCHEDULER_SETTINGS }
+  }
+}
+
+export const saveSchedulerSettings = async (settings: SchedulerSettings): Promise<void> => {
+  await chrome.storage.local.set({ [STORAGE_KEY]: sanitizeSchedulerSettings(settings) })
+}
+
+/**
+ * Keep a scheduler on the stored settings, including changes saved from
+ * another extension page while it is running. Returns the unsubscribe
+ * function.
+ */
+export const followSchedulerSettings = (scheduler: RequestScheduler): (() => void) => {
+  loadSchedulerSettings().then(scheduler.updateSettings)
+  const onChanged = (changes: Record<string, chrome.storage.StorageChange>, area: string) => {
+    if (area === 'local' && changes[STORAGE_KEY]) {
+      scheduler.updateSettings(sanitizeSchedulerSettings(changes[STORAGE_KEY].newValue || {}))
+    }
+  }
+  chrome.storage.onChanged.addListener(onChanged)
+  return () => chrome.storage.onChanged.removeListener(onChanged)
+}
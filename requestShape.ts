@@ -0,0 +1,352 @@
+import type { AnyNode, CallExpression, ObjectExpression, Program, Property } from "acorn"
+import { ancestor, simple } from "acorn-walk"
+
+import {
+  collectConstants,
+  looksLikeEndpoint,
+  memberPath,
+  resolveOrPlaceholder,
+  resolveString,
+  type ScriptConstants
+} from "~astEndpoints"
+import type { EndpointInfo, EndpointParameter, ParameterLocation } from "~background/messages/scrape-website"
+import { mergeParameters } from "~parameters"
+
+// What a call site reveals about the request it sends
+export interface RequestShape {
+  method?: string
+  // Declared in the headers or implied by how the body is built
+  contentType?: string
+  // Header, body and (for GET data) query fields
+  parameters: EndpointParameter[]
+}
+
+export interface LocatedRequestShape {
+  shape: RequestShape
+  // Offsets of the whole call and of its URL argument in the script
+  start: number
+  end: number
+  urlStart: number
+  urlEnd: number
+  line: number
+  // Set when the URL argument is a variable whose value could be resolved
+  url?: string
+  composed?: boolean
+}
+
+type ConfigStyle = 'fetch' | 'axios' | 'jquery'
+
+const HTTP_VERBS = ['get', 'post', 'put', 'patch', 'delete', 'head', 'options']
+const BODY_VERBS = ['post', 'put', 'patch']
+const MAX_OBJECT_DEPTH = 4
+
+const propertyName = (property: Property): string | null => {
+  if (property.computed) return null
+  if (property.key.type === 'Identifier') return property.key.name
+  if (property.key.type === 'Literal' && typeof property.key.value === 'string') return property.key.value
+  return null
+}
+
+const getProperty = (object: ObjectExpression, name: string): AnyNode | undefined => {
+  for (const property of object.properties) {
+    if (property.type === 'Property' && propertyName(property) === name) return property.value as AnyNode
+  }
+  return undefined
+}
+
+const calleeName = (node: AnyNode): string | null => {
+  if (node.type === 'Identifier') return node.name
+  if (node.type === 'MemberExpression' && !node.computed && node.property.type === 'Identifier') {
+    return node.property.name
+  }
+  return null
+}
+
+const calleeObject = (node: AnyNode): string | null =>
+  node.type === 'MemberExpression' ? memberPath(node.object as AnyNode) : null
+
+/**
+ * The object literal behind a config, body or headers argument, looking
+ * through variables, `JSON.stringify(...)`, `new URLSearchParams(...)` and
+ * `new Headers(...)`.
+ */
+const resolveObject = (node: AnyNode | undefined, constants: ScriptConstants, depth = 0): ObjectExpression | null => {
+  if (!node || depth > MAX_OBJECT_DEPTH) return null
+  switch (node.type) {
+    case 'ObjectExpression':
+      return node
+    case 'Identifier':
+    case 'MemberExpression': {
+      const path = memberPath(node)
+      const value = path ? constants.get(path) : null
+      return value ? resolveObject(value as AnyNode, constants, depth + 1) : null
+    }
+    case 'CallExpression':
+      return memberPath(node.callee as AnyNode) === 'JSON.stringify'
+        ? resolveObject(node.arguments[0] as AnyNode, constants, depth + 1)
+        : null
+    case 'NewExpression':
+      return ['URLSearchParams', 'Headers'].includes(calleeName(node.callee as AnyNode) || '')
+        ? resolveObject(node.arguments[0] as AnyNode, constants, depth + 1)
+        : null
+    default:
+      return null
+  }
+}
+
+const literalExample = (node: AnyNode): string | undefined => {
+  if (node.type !== 'Literal' || node.value === null || node.value instanceof RegExp) return undefined
+  return String(node.value)
+}
+
+const fieldsOf = (
+  node: AnyNode | undefined,
+  location: ParameterLocation,
+  constants: ScriptConstants,
+  depth = 0
+): EndpointParameter[] => {
+  const object = resolveObject(node, constants, depth)
+  if (!object) return []
+  return object.properties.flatMap(property => {
+    // `{ ...defaults, id }` contributes the fields of `defaults`
+    if (property.type === 'SpreadElement') return fieldsOf(property.argument as AnyNode, location, constants, depth + 1)
+    const name = propertyName(property)
+    return name ? [{ name, location, example: literalExample(property.value as AnyNode) }] : []
+  })
+}
+
+const headersOf = (node: AnyNode | undefined, constants: ScriptConstants): EndpointParameter[] => {
+  const object = resolveObject(node, constants)
+  if (!object) return []
+  return object.properties.flatMap(property => {
+    const name = property.type === 'Property' ? propertyName(property) : null
+    if (!name) return []
+    // Computed values keep their shape, e.g. `Bearer {token}`
+    const value = resolveOrPlaceholder((property as Property).value as AnyNode, constants)
+    return [{ name, location: 'header' as const, example: value.value }]
+  })
+}
+
+const impliedContentType = (node: AnyNode, constants: ScriptConstants, style: ConfigStyle): string | undefined => {
+  if (node.type === 'CallExpression' && memberPath(node.callee as AnyNode) === 'JSON.stringify') return 'application/json'
+  if (node.type === 'NewExpression') {
+    const name = calleeName(node.callee as AnyNode)
+    if (name === 'URLSearchParams') return 'application/x-www-form-urlencoded'
+    if (name === 'FormData') return 'multipart/form-data'
+  }
+  // axios serializes plain objects as JSON, jQuery as a form; fetch would send `[object Object]`
+  if (resolveObject(node, constants)) {
+    if (style === 'axios') return 'application/json'
+    if (style === 'jquery') return 'application/x-www-form-urlencoded'
+  }
+  return undefined
+}
+
+const addBody = (
+  shape: RequestShape,
+  body: AnyNode | undefined,
+  constants: ScriptConstants,
+  style: ConfigStyle
+) => {
+  if (!body) return
+  // jQuery turns GET data into a query string
+  const location: ParameterLocation = shape.method === 'GET' || shape.method === 'HEAD' ? 'query' : 'body'
+  shape.parameters = mergeParameters(shape.parameters, fieldsOf(body, location, constants))
+  if (location === 'body') shape.contentType = shape.contentType ?? impliedContentType(body, constants, style)
+}
+
+// Method, headers and body from a fetch `init`, axios config or jQuery settings object
+const readConfig = (
+  shape: RequestShape,
+  node: AnyNode | undefined,
+  constants: ScriptConstants,
+  style: ConfigStyle
+) => {
+  const config = resolveObject(node, constants)
+  if (!config) return
+
+  const methodNode = getProperty(config, 'method') || (style === 'jquery' ? getProperty(config, 'type') : undefined)
+  const method = methodNode && resolveString(methodNode, constants)
+  if (method && !method.composed) shape.method = method.value.toUpperCase()
+
+  shape.parameters = mergeParameters(shape.parameters, headersOf(getProperty(config, 'headers'), constants))
+  if (style === 'axios') {
+    shape.parameters = mergeParameters(shape.parameters, fieldsOf(getProperty(config, 'params'), 'query', constants))
+  }
+  if (style === 'jquery') {
+    const contentType = getProperty(config, 'contentType')
+    if (contentType?.type === 'Literal' && typeof contentType.value === 'string') shape.contentType = contentType.value
+  }
+  addBody(shape, getProperty(config, style === 'fetch' ? 'body' : 'data'), constants, style)
+}
+
+// `xhr.setRequestHeader(...)` and `xhr.send(...)` calls on the same object as `xhr.open(...)`
+const readXhrCalls = (
+  shape: RequestShape,
+  xhr: string,
+  scope: AnyNode,
+  constants: ScriptConstants
+) => {
+  simple(scope, {
+    CallExpression(node) {
+      if (calleeObject(node.callee as AnyNode) !== xhr) return
+      const name = calleeName(node.callee as AnyNode)
+      if (name === 'setRequestHeader' && node.arguments.length >= 2) {
+        const header = resolveString(node.arguments[0] as AnyNode, constants)
+        if (!header || header.composed) return
+        const value = resolveOrPlaceholder(node.arguments[1] as AnyNode, constants)
+        shape.parameters = mergeParameters(shape.parameters, [{ name: header.value, location: 'header', example: value.value }])
+      } else if (name === 'send') {
+        addBody(shape, node.arguments[0] as AnyNode, constants, 'fetch')
+      }
+    }
+  })
+}
+
+const isFunctionScope = (node: AnyNode) =>
+  node.type === 'Program' ||
+  node.type === 'FunctionDeclaration' ||
+  node.type === 'FunctionExpression' ||
+  node.type === 'ArrowFunctionExpression'
+
+/**
+ * Infer the request a call sends to its URL argument. Recognizes `fetch`,
+ * `axios` (call and verb methods), jQuery `$.ajax`/`$.get`/`$.post`, any
+ * `.get`/`.post`/`.put`/... client method and `XMLHttpRequest.open`.
+ * Returns null for calls that are not HTTP clients.
+ */
+const inferCallShape = (
+  call: CallExpression,
+  urlNode: AnyNode,
+  ancestors: AnyNode[],
+  constants: ScriptConstants
+): RequestShape | null => {
+  const callee = call.callee as AnyNode
+  const name = calleeName(callee)
+  const object = calleeObject(callee)
+  const args = call.arguments as AnyNode[]
+  const isJquery = object === '$' || object === 'jQuery'
+  const shape: RequestShape = { parameters: [] }
+
+  // Settings object carrying the URL: `$.ajax({ url })`, `axios({ url })`
+  if (urlNode !== args[0] && urlNode !== args[1]) {
+    if (isJquery && name === 'ajax') {
+      shape.method = 'GET'
+      readConfig(shape, args[0], constants, 'jquery')
+    } else if (name === 'axios' || (object === 'axios' && name === 'request')) {
+      shape.method = 'GET'
+      readConfig(shape, args[0], constants, 'axios')
+    } else {
+      return null
+    }
+  } else if (urlNode === args[1]) {
+    const method = args[0] && resolveString(args[0], constants)
+    if (name !== 'open' || !object || !method || !/^(GET|POST|PUT|DELETE|PATCH|HEAD|OPTIONS)$/i.test(method.value)) return null
+    shape.method = method.value.toUpperCase()
+    const scope = [...ancestors].reverse().find(isFunctionScope)
+    if (scope) readXhrCalls(shape, object, scope, constants)
+  } else if (name === 'fetch') {
+    // Without an init object, or without a method in it, fetch sends a GET
+    shape.method = !args[1] || resolveObject(args[1], constants) ? 'GET' : undefined
+    readConfig(shape, args[1], constants, 'fetch')
+  } else if (name === 'axios') {
+    shape.method = !args[1] || resolveObject(args[1], constants) ? 'GET' : undefined
+    readConfig(shape, args[1], constants, 'axios')
+  } else if (isJquery && name === 'ajax') {
+    shape.method = 'GET'
+    readConfig(shape, args[1], constants, 'jquery')
+  } else if (name && HTTP_VERBS.includes(name) && callee.type === 'MemberExpression') {
+    shape.method = name.toUpperCase()
+    if (isJquery) {
+      addBody(shape, args[1], constants, 'jquery')
+    } else {
+      // axios-style clients: `post(url, data, config)` and `get(url, config)`
+      const hasBody = BODY_VERBS.includes(name)
+      if (hasBody) addBody(shape, args[1], constants, 'axios')
+      readConfig(shape, args[hasBody ? 2 : 1], constants, 'axios')
+      // The verb wins over a stray `method` in the config
+      shape.method = name.toUpperCase()
+    }
+  } else {
+    return null
+  }
+
+  const declared = shape.parameters.find(p => p.location === 'header' && p.name.toLowerCase() === 'content-type')
+  if (declared?.example && !declared.example.startsWith('{')) shape.contentType = declared.example
+  return shape
+}
+
+// Where a call keeps its URL: first argument, `open`'s second, or a settings object's `url`
+const urlArguments = (call: CallExpression): AnyNode[] => {
+  const [first, second] = call.arguments as AnyNode[]
+  if (!first) return []
+  if (calleeName(call.callee as AnyNode) === 'open') return second ? [second] : []
+  if (first.type === 'ObjectExpression') {
+    const url = getProperty(first, 'url')
+    return url ? [url] : []
+  }
+  return first.type === 'SpreadElement' ? [] : [first]
+}
+
+/**
+ * Infer the method, headers, body fields and content type of every HTTP
+ * client call in a script, with the offsets needed to match them to the
+ * endpoints extracted from the same text.
+ */
+export const findRequestShapes = (program: Program): LocatedRequestShape[] => {
+  const constants = collectConstants(program)
+  const shapes: LocatedRequestShape[] = []
+
+  ancestor(program, {
+    CallExpression: (node, _state, ancestors) => {
+      for (const urlNode of urlArguments(node)) {
+        const shape = inferCallShape(node, urlNode, ancestors as AnyNode[], constants)
+        if (!shape) continue
+
+        const located: LocatedRequestShape = {
+          shape,
+          start: node.start,
+          end: node.end,
+          urlStart: urlNode.start,
+          urlEnd: urlNode.end,
+          line: urlNode.loc?.start.line ?? 0
+        }
+        // `fetch(API_URL)`: the literal is reported where it is declared, so report the call too
+        if (urlNode.type === 'Identifier' || urlNode.type === 'MemberExpression') {
+          const resolved = resolveString(urlNode, constants)
+          if (resolved?.hasStaticText && looksLikeEndpoint(resolved.value.trim(), resolved.composed)) {
+            located.url = resolved.value.trim()
+            if (resolved.composed) located.composed = true
+          }
+        }
+        shapes.push(located)
+      }
+    }
+  })
+
+  return shapes
+}
+
+/**
+ * The innermost call whose URL argument contains the offset, or whose
+ * callee starts there (`fetch('...')` matched as a whole).
+ */
+export const requestShapeAt = (shapes: LocatedRequestShape[], index: number): RequestShape | undefined => {
+  let best: LocatedRequestShape | undefined
+  for (const located of shapes) {
+    const inUrl = index >= located.urlStart && index < located.urlEnd
+    const inCallee = index >= located.start && index < located.urlStart
+    if (!inUrl && !inCallee) continue
+    if (!best || located.end - located.start < best.end - best.start) best = located
+  }
+  return best?.shape
+}
+
+// The inferred method replaces text-based guesses; everything else only fills gaps
+export const applyRequestShape = (endpoint: EndpointInfo, shape: RequestShape | undefined): EndpointInfo => {
+  if (!shape) return endpoint
+  if (shape.method) endpoint.method = shape.method
+  endpoint.contentType = endpoint.contentType ?? shape.contentType
+  if (shape.parameters.length > 0) endpoint.parameters = mergeParameters(endpoint.parameters, shape.parameters)
+  return endpoint
+}
@@ -0,0 +1,90 @@
+import type { EndpointInfo } from "~background/messages/scrape-website"
+
+export interface RouteTemplate {
+  template: string
+  type: EndpointInfo['type']
+  // Concrete URLs that collapsed into this template (the first few of `count`)
+  examples: string[]
+  count: number
+  methods: string[]
+}
+
+const MAX_EXAMPLES = 10
+
+// Segments that are variable wherever they appear
+const SEGMENT_PATTERNS: { placeholder: string, pattern: RegExp }[] = [
+  { placeholder: '{uuid}', pattern: /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i },
+  { placeholder: '{date}', pattern: /^(\d{4}-\d{2}-\d{2}|\d{8})$/ },
+  { placeholder: '{id}', pattern: /^\d+$/ },
+  { placeholder: '{hash}', pattern: /^[0-9a-f]{16,}$/i },
+  // Opaque tokens: long, and mixing letters and digits
+  { placeholder: '{hash}', pattern: /^(?=.*\d)(?=.*[a-z])[A-Za-z0-9_-]{24,}$/i }
+]
+
+// Slugs are only variable when siblings with different values exist
+const SLUG_PATTERN = /^[a-z0-9]+(?:-[a-z0-9]+){2,}$/i
+
+const splitUrl = (url: string): { prefix: string, segments: string[] } => {
+  const absolute = url.match(/^([a-z][a-z0-9+.-]*:\/\/[^/]+)(.*)$/i)
+  const prefix = absolute ? absolute[1] : ''
+  const path = absolute ? absolute[2] : url
+  return { prefix, segments: path.split('/') }
+}
+
+const templateSegment = (segment: string): string => {
+  if (!segment || /^\{[^}]+\}$/.test(segment)) return segment
+  return SEGMENT_PATTERNS.find(({ pattern }) => pattern.test(segment))?.placeholder ?? segment
+}
+
+/**
+ * Collapse endpoints that differ only in variable path segments - numbers,
+ * UUIDs, hashes, dates and (when siblings exist) slugs - into route
+ * templates such as `/api/products/{id}`. Each endpoint gets its template,
+ * and every template keeps the concrete URLs it was built from.
+ */
+export const clusterRouteTemplates = (
+  endpoints: EndpointInfo[]
+): { endpoints: EndpointInfo[], templates: RouteTemplate[] } => {
+  const split = endpoints.map(endpoint => {
+    const { prefix, segments } = splitUrl(endpoint.url)
+    return { prefix, segments: segments.map(templateSegment) }
+  })
+
+  // Count distinct values per "everything else equal" position to spot slug siblings
+  const slugValues = new Map<string, Set<string>>()
+  const slugKey = (prefix: string, segments: string[], i: number) =>
+    `${prefix}${segments.map((s, j) => (j === i ? '*' : s)).join('/')}`
+  for (const { prefix, segments } of split) {
+    segments.forEach((segment, i) => {
+      if (!SLUG_PATTERN.test(segment)) return
+      const key = slugKey(prefix, segments, i)
+      if (!slugValues.has(key)) slugValues.set(key, new Set())
+      slugValues.get(key).add(segment)
+    })
+  }
+
+  const templates = new Map<string, RouteTemplate>()
+  const templated = endpoints.map((endpoint, index) => {
+    const { prefix, segments } = split[index]
+    const template = prefix + segments
+      .map((segment, i) =>
+        SLUG_PATTERN.test(segment) && slugValues.get(slugKey(prefix, segments, i))?.size > 1 ? '{slug}' : segment
+      )
+      .join('/')
+
+    let route = templates.get(template)
+    if (!route) {
+      route = { template, type: endpoint.type, examples: [], count: 0, methods: [] }
+      templates.set(template, route)
+    }
+    route.count += 1
+    if (route.examples.length < MAX_EXAMPLES && !route.examples.includes(endpoint.url)) {
+      route.examples.push(endpoint.url)
+    }
+    if (endpoint.method && !route.methods.includes(endpoint.method)) route.methods.push(endpoint.method)
+
+    return template === endpoint.url ? endpoint : { ...endpoint, template }
+  })
+
+  return { endpoints: templated, templates: Array.from(templates.values()) }
+}
@@ -0,0 +1,233 @@
+import type { Program } from "acorn"
+
+import { findAstEndpointCandidates, parseScript } from "~astEndpoints"
+import type { EndpointInfo, ExtractionMode } from "~background/messages/scrape-website"
+import { categorizeUrl } from "~endpointClassifier"
+import { extractGraphqlOperations, type GraphqlOperation } from "~graphql"
+import { createLineIndex } from "~lineIndex"
+import { captureOccurrence } from "~occurrences"
+import { parseQueryParameters } from "~parameters"
+import { matchRules, type ExtractionRule, type RuleMatch } from "~patternRegistry"
+import { findRealtimeChannels, importsSocketIo, type RealtimeChannel } from "~realtime"
+import { applyRequestShape, findRequestShapes, requestShapeAt, type LocatedRequestShape } from "~requestShape"
+import { detectSecrets, type SecretFinding } from "~secretDetection"
+
+export interface ExtractionJob {
+  text: string
+  source: string
+  // `script` adds realtime channels, and in `ast` mode AST extraction and call-site inference; `html` runs the rules only
+  kind: 'script' | 'html'
+  mode: ExtractionMode
+  rules: ExtractionRule[]
+  // Also look for secrets and GraphQL operations in the text
+  textFindings: boolean
+}
+
+export interface ExtractionResult {
+  endpoints: EndpointInfo[]
+  secrets: SecretFinding[]
+  graphqlOperations: GraphqlOperation[]
+}
+
+export interface ExtractionProgress {
+  source: string
+  // Characters scanned so far
+  processed: number
+  total: number
+}
+
+// Regexes run over windows of this size; each window also sees the start of the next so matches can finish
+const CHUNK_SIZE = 256 * 1024
+const CHUNK_OVERLAP = 4 * 1024
+// Bigger scripts are not parsed: their syntax tree would not fit comfortably in memory
+const MAX_PARSE_SIZE = 3 * 1024 * 1024
+
+export const isValidEndpoint = (url: string): boolean => {
+  // Filter out common non-endpoint patterns
+  const excludePatterns = [
+    /^#/,
+    /^javascript:/,
+    /^mailto:/,
+    /^tel:/,
+    /\.(css|js|png|jpg|jpeg|gif|svg|ico|woff|woff2|ttf|eot)$/i,
+    /^\/$/, // Just root path
+    /^\/\s*$/, // Root with whitespace
+  ]
+
+  return !excludePatterns.some(pattern => pattern.test(url))
+}
+
+export const normalizeUrl = (url: string): string => {
+  // Remove query parameters and fragments for grouping; parameter names are kept in `parameters`
+  return url.split('?')[0].split('#')[0]
+}
+
+export const withQueryParameters = (endpoint: EndpointInfo, rawUrl: string): EndpointInfo => {
+  const parameters = parseQueryParameters(rawUrl)
+  if (parameters.length > 0) endpoint.parameters = parameters
+  return endpoint
+}
+
+const yieldToEventLoop = () => new Promise<void>(resolve => setTimeout(resolve, 0))
+
+/**
+ * Run the rules and the realtime patterns window by window. A match
+ * belongs to the window it starts in, so the overlap never reports one
+ * twice; the scan yields between windows and reports its progress.
+ */
+const matchInChunks = async (
+  text: string,
+  rules: ExtractionRule[],
+  realtime: boolean,
+  onProgress: (processed: number) => void
+): Promise<{ matches: RuleMatch[], channels: RealtimeChannel[] }> => {
+  const matches: RuleMatch[] = []
+  const channels: RealtimeChannel[] = []
+  // A bundle's Socket.IO import is usually in another window than its `io()` calls
+  const socketIoImported = realtime && importsSocketIo(text)
+  for (let offset = 0; offset < text.length; offset += CHUNK_SIZE) {
+    const chunk = text.slice(offset, offset + CHUNK_SIZE + CHUNK_OVERLAP)
+    for (const match of matchRules(chunk, rules)) {
+      if (match.index < CHUNK_SIZE) matches.push({ ...match, index: match.index + offset })
+    }
+    if (realtime) {
+      for (const channel of findRealtimeChannels(chunk, socketIoImported)) {
+        if (channel.index < CHUNK_SIZE) channels.push({ ...channel, index: channel.index + offset })
+      }
+    }
+    onProgress(Math.min(offset + CHUNK_SIZE, text.length))
+    await yieldToEventLoop()
+  }
+  return { matches, channels }
+}
+
+const ruleMatchesToEndpoints = (
+  text: string,
+  matches: RuleMatch[],
+  source: string,
+  shapes: LocatedRequestShape[],
+  lineAt: (index: number) => number
+): EndpointInfo[] =>
+  matches
+    .filter(match => isValidEndpoint(match.url))
+    .map(match => {
+      const line = lineAt(match.index)
+      const endpoint: EndpointInfo = {
+        url: normalizeUrl(match.url),
+        type: match.type || categorizeUrl(match.url),
+        source: source,
+        line,
+        occurrences: [captureOccurrence(text, match.index, match.length, source, line)]
+      }
+      if (match.method) endpoint.method = match.method
+      applyRequestShape(endpoint, requestShapeAt(shapes, match.index))
+      return withQueryParameters(endpoint, match.url)
+    })
+
+// Realtime channels are listed whatever the extraction mode; no rule or AST pass knows their setup calls
+export const channelsToEndpoints = (
+  text: string,
+  channels: RealtimeChannel[],
+  source: string,
+  lineAt: (index: number) => number
+): EndpointInfo[] =>
+  channels.filter(channel => isValidEndpoint(channel.url)).map(channel => {
+    const line = lineAt(channel.index)
+    const endpoint: EndpointInfo = {
+      url: normalizeUrl(channel.url),
+      type: 'realtime',
+      protocol: channel.protocol,
+      source,
+      line,
+      occurrences: [captureOccurrence(text, channel.index, channel.length, source, line)]
+    }
+    if (channel.method) endpoint.method = channel.method
+    if (channel.url.includes('{')) endpoint.composed = true
+    return withQueryParameters(endpoint, channel.url)
+  })
+
+const extractEndpointsFromAst = (
+  code: string,
+  program: Program,
+  source: string,
+  shapes: LocatedRequestShape[]
+): EndpointInfo[] => {
+  const candidates = findAstEndpointCandidates(program)
+  // Calls whose URL is a variable; the literal itself was found where it is declared
+  for (const located of shapes) {
+    if (located.url) {
+      candidates.push({
+        url: located.url,
+        composed: !!located.composed,
+        start: located.urlStart,
+        end: located.urlEnd,
+        line: located.line,
+        column: 0
+      })
+    }
+  }
+
+  return candidates
+    .filter(candidate => isValidEndpoint(candidate.url))
+    .map(candidate => {
+      const endpoint: EndpointInfo = {
+        url: normalizeUrl(candidate.url),
+        type: categorizeUrl(candidate.url),
+        source: source,
+        line: candidate.line,
+        occurrences: [captureOccurrence(code, candidate.start, candidate.end - candidate.start, source, candidate.line)]
+      }
+      if (candidate.composed) endpoint.composed = true
+      applyRequestShape(endpoint, requestShapeAt(shapes, candidate.start))
+      return withQueryParameters(endpoint, candidate.url)
+    })
+}
+
+/**
+ * Extract endpoints, and optionally secrets and GraphQL operations, from
+ * one HTML page or script. Large texts are matched in chunks, so this is
+ * safe to run on production bundles; it is meant to run in the
+ * extraction worker, which forwards `onProgress` to the popup.
+ */
+export const extractFromText = async (
+  job: ExtractionJob,
+  onProgress: (progress: ExtractionProgress) => void = () => {}
+): Promise<ExtractionResult> => {
+  const { text, source, kind, mode, rules } = job
+  const total = text.length
+  const report = (processed: number) => onProgress({ source, processed, total })
+  const lineAt = createLineIndex(text)
+  report(0)
+
+  // Regex mode skips the parse, and with it call-site inference, to stay fast on big bundles
+  let program: Program | null = null
+  if (mode === 'ast' && kind === 'script' && total <= MAX_PARSE_SIZE) {
+    try {
+      program = parseScript(text)
+    } catch (error) {
+      // Not parsable as JavaScript (JSON, templates, broken chunks) - use the regexes without call-site inference
+      console.warn(`Failed to parse ${source}, falling back to regex extraction`, error)
+    }
+  }
+  const shapes = program ? findRequestShapes(program) : []
+
+  // The AST replaces the built-in regexes; the user's own rules still apply
+  const useAst = !!program
+  const { matches, channels } = await matchInChunks(
+    text,
+    useAst ? rules.filter(rule => !rule.builtIn) : rules,
+    kind === 'script',
+    report
+  )
+  const endpoints = [
+    ...(useAst ? extractEndpointsFromAst(text, program, source, shapes) : []),
+    ...ruleMatchesToEndpoints(text, matches, source, shapes, lineAt),
+    ...channelsToEndpoints(text, channels, source, lineAt)
+  ]
+
+  return {
+    endpoints,
+    secrets: job.textFindings ? detectSecrets(text, source) : [],
+    graphqlOperations: job.textFindings ? extractGraphqlOperations(text, source) : []
+  }
+}
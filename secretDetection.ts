@@ -0,0 +1,104 @@
+import { createLineIndex } from "~lineIndex"
+
+export interface SecretFinding {
+  rule: string
+  severity: 'high' | 'medium' | 'low'
+  source: string
+  line: number
+  // Only the first and last characters are kept
+  maskedValue: string
+  // Variable or property name for generic assignments
+  name?: string
+}
+
+interface SecretRule {
+  name: string
+  severity: SecretFinding['severity']
+  pattern: RegExp
+  // Capture group holding the secret (0 = whole match)
+  group?: number
+  // Report the match as-is; a PEM header holds no key material
+  headerOnly?: boolean
+}
+
+const SECRET_RULES: SecretRule[] = [
+  { name: 'AWS access key ID', severity: 'high', pattern: /\b((?:AKIA|ASIA|AGPA|AIDA|AROA|AIPA|ANPA|ANVA)[0-9A-Z]{16})\b/g, group: 1 },
+  { name: 'AWS secret access key', severity: 'high', pattern: /aws.{0,20}?(?:secret|private).{0,20}?["'`]([A-Za-z0-9/+=]{40})["'`]/gi, group: 1 },
+  { name: 'Google API key', severity: 'medium', pattern: /\b(AIza[0-9A-Za-z_-]{35})\b/g, group: 1 },
+  { name: 'Google OAuth client secret', severity: 'high', pattern: /\b(GOCSPX-[0-9A-Za-z_-]{28})\b/g, group: 1 },
+  { name: 'Stripe secret key', severity: 'high', pattern: /\b((?:sk|rk)_live_[0-9a-zA-Z]{24,})\b/g, group: 1 },
+  { name: 'Stripe test secret key', severity: 'medium', pattern: /\b((?:sk|rk)_test_[0-9a-zA-Z]{24,})\b/g, group: 1 },
+  { name: 'Slack token', severity: 'high', pattern: /\b(xox[abposr]-[0-9A-Za-z-]{10,})\b/g, group: 1 },
+  { name: 'Slack webhook URL', severity: 'high', pattern: /(https:\/\/hooks\.slack\.com\/services\/T[A-Z0-9]+\/B[A-Z0-9]+\/[A-Za-z0-9]+)/g, group: 1 },
+  { name: 'GitHub token', severity: 'high', pattern: /\b((?:ghp|gho|ghu|ghs|ghr)_[A-Za-z0-9]{36}|github_pat_[A-Za-z0-9_]{60,})\b/g, group: 1 },
+  { name: 'JSON Web Token', severity: 'medium', pattern: /\b(eyJ[A-Za-z0-9_-]{10,}\.eyJ[A-Za-z0-9_-]{10,}\.[A-Za-z0-9_-]{10,})\b/g, group: 1 },
+  { name: 'Private key block', severity: 'high', pattern: /-----BEGIN (?:RSA |EC |DSA |OPENSSH |PGP |ENCRYPTED )?PRIVATE KEY(?: BLOCK)?-----/g, headerOnly: true }
+]
+
+// `apiKey = "..."`, `"client_secret": "..."`, `password: '...'`
+const GENERIC_ASSIGNMENT = /["']?([A-Za-z0-9_$-]*(?:api[_-]?key|apikey|secret|token|passw(?:or)?d|client[_-]?secret|access[_-]?key|private[_-]?key|auth[_-]?key)[A-Za-z0-9_$-]*)["']?\s*[:=]\s*["'`]([^"'`\s]{12,200})["'`]/gi
+
+const MIN_GENERIC_ENTROPY = 3.5
+
+// Values that look like configuration rather than credentials
+const PLACEHOLDER_VALUE = /^(?:x+|\*+|your[_-]|example|changeme|placeholder|undefined|null|true|false|https?:\/\/|\/|\.\/|[a-z]+(?:[_.-][a-z]+)*$)/i
+
+/**
+ * Shannon entropy in bits per character, used to tell random credentials
+ * apart from ordinary identifiers and words.
+ */
+export const shannonEntropy = (value: string): number => {
+  const counts = new Map<string, number>()
+  for (const char of value) counts.set(char, (counts.get(char) || 0) + 1)
+  let entropy = 0
+  counts.forEach(count => {
+    const p = count / value.length
+    entropy -= p * Math.log2(p)
+  })
+  return entropy
+}
+
+export const maskSecret = (value: string): string => {
+  if (value.length <= 8) return '*'.repeat(value.length)
+  const visible = Math.min(4, Math.floor(value.length / 6))
+  return `${value.slice(0, visible)}${'*'.repeat(Math.min(value.length - visible * 2, 24))}${value.slice(-visible)}`
+}
+
+/**
+ * Scan HTML or JavaScript for leaked credentials: provider-specific key
+ * formats, JWTs, private key blocks and high-entropy values assigned to
+ * names like `apiKey` or `secret`. Values are masked before being returned.
+ */
+export const detectSecrets = (text: string, source: string): SecretFinding[] => {
+  const findings: SecretFinding[] = []
+  const seen = new Set<string>()
+  const line = createLineIndex(text)
+
+  const report = (finding: Omit<SecretFinding, 'source' | 'line'>, index: number, rawValue: string) => {
+    const key = `${finding.rule}\u0000${rawValue}`
+    if (seen.has(key)) return
+    seen.add(key)
+    findings.push({ ...finding, source, line: line(index) })
+  }
+
+  for (const rule of SECRET_RULES) {
+    for (const match of Array.from(text.matchAll(rule.pattern))) {
+      const value = match[rule.group ?? 0]
+      report({
+        rule: rule.name,
+        severity: rule.severity,
+        maskedValue: rule.headerOnly ? match[0] : maskSecret(value)
+      }, match.index, value)
+    }
+  }
+
+  for (const match of Array.from(text.matchAll(GENERIC_ASSIGNMENT))) {
+    const [, name, value] = match
+    if (PLACEHOLDER_VALUE.test(value) || shannonEntropy(value) < MIN_GENERIC_ENTROPY) continue
+    // Already reported by a specific rule
+    if (findings.some(f => f.line === line(match.index) && f.rule !== 'Generic secret assignment')) continue
+    report({ rule: 'Generic secret assignment', severity: 'medium', maskedValue: maskSecret(value), name }, match.index, value)
+  }
+
+  return findings
+}
@@ -0,0 +1,9 @@
+import { createRequestScheduler, followSchedulerSettings } from "~requestScheduler"
+
+/**
+ * The service worker's one request queue. Every scanner that runs in the
+ * background sends through it, so per-host rate limits and back-off hold
+ * however many scans run at once. Import it from background code only.
+ */
+export const scheduler = createRequestScheduler()
+followSchedulerSettings(scheduler)
@@ -0,0 +1,150 @@
+export interface SourceMapFinding {
+  scriptUrl: string
+  mapUrl: string
+  discoveredVia: 'comment' | 'header'
+  sourceCount: number
+  // Sources whose original text is embedded in `sourcesContent`
+  sourcesWithContent: number
+}
+
+export interface OriginalSource {
+  path: string
+  content: string
+}
+
+interface RawSourceMap {
+  version?: number
+  sourceRoot?: string
+  sources?: string[]
+  sourcesContent?: (string | null)[]
+  sections?: { map?: RawSourceMap, url?: string }[]
+}
+
+export interface UnpackedSourceMap {
+  // Original files worth scanning (vendored sources are left out)
+  sources: OriginalSource[]
+  sourceCount: number
+  sourcesWithContent: number
+}
+
+export interface SourceMapReference {
+  mapUrl: string
+  discoveredVia: SourceMapFinding['discoveredVia']
+}
+
+// Vendored and bundler-internal sources only add noise to endpoint results
+const IGNORED_SOURCE_PATTERNS = [
+  /\/node_modules\//,
+  /^webpack\/(bootstrap|runtime)/,
+  /webpack:\/\/\/(webpack\/)?(bootstrap|runtime)/,
+  /\(webpack\)\//
+]
+
+/**
+ * Find the source map for a script, preferring the `SourceMap` (or legacy
+ * `X-SourceMap`) response header over a trailing `sourceMappingURL` comment.
+ */
+export const findSourceMapReference = (
+  scriptUrl: string,
+  scriptContent: string,
+  headers?: Headers
+): SourceMapReference | null => {
+  const headerValue = headers?.get('SourceMap') || headers?.get('X-SourceMap')
+  if (headerValue) {
+    try {
+      return { mapUrl: new URL(headerValue.trim(), scriptUrl).href, discoveredVia: 'header' }
+    } catch {
+      return null
+    }
+  }
+
+  // Only the last reference counts; bundles may embed others inside strings
+  const comments = Array.from(scriptContent.matchAll(/[#@]\s*sourceMappingURL\s*=\s*([^\s'"*]+)/g))
+  const last = comments[comments.length - 1]
+  if (!last) return null
+
+  const reference = last[1]
+  if (reference.startsWith('data:')) {
+    return { mapUrl: reference, discoveredVia: 'comment' }
+  }
+  try {
+    return { mapUrl: new URL(reference, scriptUrl).href, discoveredVia: 'comment' }
+  } catch {
+    return null
+  }
+}
+
+const decodeDataUri = (uri: string): string | null => {
+  const match = uri.match(/^data:[^,]*?(;base64)?,(.*)$/s)
+  if (!match) return null
+  try {
+    if (!match[1]) return decodeURIComponent(match[2])
+    const binary = atob(match[2])
+    const bytes = Uint8Array.from(binary, c => c.charCodeAt(0))
+    return new TextDecoder().decode(bytes)
+  } catch {
+    return null
+  }
+}
+
+export const fetchSourceMap = async (mapUrl: string): Promise<RawSourceMap | null> => {
+  let text: string | null
+  if (mapUrl.startsWith('data:')) {
+    text = decodeDataUri(mapUrl)
+  } else {
+    const response = await fetch(mapUrl, {
+      method: 'GET',
+      mode: 'cors',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': 'application/json, */*'
+      }
+    })
+    if (!response.ok) return null
+    text = await response.text()
+  }
+  if (!text) return null
+
+  try {
+    // Some servers prefix maps with an XSSI guard
+    const map = JSON.parse(text.replace(/^\)\]\}'[^\n]*\n/, ''))
+    return map && typeof map === 'object' && (Array.isArray(map.sources) || Array.isArray(map.sections))
+      ? map
+      : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Flatten a source map (including index maps with `sections`) into the
+ * original files it embeds. Sources without `sourcesContent` are counted
+ * but cannot be scanned.
+ */
+export const unpackSourceMap = (map: RawSourceMap): UnpackedSourceMap => {
+  if (map.sections) {
+    const unpacked = map.sections
+      .filter(section => section.map)
+      .map(section => unpackSourceMap(section.map))
+    return {
+      sources: unpacked.flatMap(u => u.sources),
+      sourceCount: unpacked.reduce((sum, u) => sum + u.sourceCount, 0),
+      sourcesWithContent: unpacked.reduce((sum, u) => sum + u.sourcesWithContent, 0)
+    }
+  }
+
+  const root = map.sourceRoot ? map.sourceRoot.replace(/\/?$/, '/') : ''
+  const sources: OriginalSource[] = []
+  let sourcesWithContent = 0
+  for (const [i, source] of (map.sources || []).entries()) {
+    const content = map.sourcesContent?.[i]
+    if (typeof content !== 'string' || !content.trim()) continue
+    sourcesWithContent += 1
+
+    const path = root && !/^[a-z]+:/i.test(source) ? `${root}${source}` : source
+    if (IGNORED_SOURCE_PATTERNS.some(pattern => pattern.test(path))) continue
+    sources.push({ path, content })
+  }
+
+  return { sources, sourceCount: map.sources?.length || 0, sourcesWithContent }
+}
@@ -0,0 +1,85 @@
+// Offscreen document that owns the extraction worker for the background scanner
+
+import type { ExtractionWorkerMessage } from "~extractionWorker"
+import { EXTRACTION_PROGRESS_ACTION, RUN_EXTRACTION_ACTION } from "~extractionHost"
+import type { ExtractionJob, ExtractionResult } from "~scriptExtraction"
+
+type Reply = (response: { result?: ExtractionResult, error?: string }) => void
+
+interface PendingJob {
+  job: ExtractionJob
+  reply: Reply
+  timer: ReturnType<typeof setTimeout>
+}
+
+// A user rule that backtracks badly can run forever; the worker is killed after this long
+const JOB_TIMEOUT = 60000
+
+const pending = new Map<number, PendingJob>()
+let nextId = 1
+
+const startWorker = (): Worker => {
+  const started = new Worker(new URL("../extractionWorker.ts", import.meta.url), { type: "module" })
+
+  started.onmessage = (event: MessageEvent<ExtractionWorkerMessage>) => {
+    const message = event.data
+    if (message.type === 'progress') {
+      const { processed, total, source } = message
+      chrome.runtime.sendMessage({ action: EXTRACTION_PROGRESS_ACTION, progress: { source, processed, total } }).catch(() => {})
+      return
+    }
+    const entry = pending.get(message.id)
+    if (!entry) return
+    clearTimeout(entry.timer)
+    pending.delete(message.id)
+    entry.reply(message.type === 'result' ? { result: message.result } : { error: message.error })
+  }
+
+  started.onerror = (event) => {
+    // A crashed worker fails every job in flight rather than leaving the scan waiting
+    for (const entry of pending.values()) {
+      clearTimeout(entry.timer)
+      entry.reply({ error: event.message || 'Extraction worker failed' })
+    }
+    pending.clear()
+  }
+
+  return started
+}
+
+let worker = startWorker()
+
+const post = (id: number, job: ExtractionJob, reply: Reply) => {
+  pending.set(id, { job, reply, timer: setTimeout(() => timeOut(id), JOB_TIMEOUT) })
+  worker.postMessage({ id, job })
+}
+
+// Terminating is the only way to stop a running regex; the other jobs start over in a new worker
+const timeOut = (id: number) => {
+  const entry = pending.get(id)
+  if (!entry) return
+  pending.delete(id)
+  worker.terminate()
+  worker = startWorker()
+  entry.reply({ error: `Timed out after ${JOB_TIMEOUT / 1000} s` })
+
+  const others = Array.from(pending.entries())
+  pending.clear()
+  for (const [otherId, other] of others) {
+    clearTimeout(other.timer)
+    post(otherId, other.job, other.reply)
+  }
+}
+
+chrome.runtime.onMessage.addListener((request, sender, sendResponse) => {
+  if (request.action !== RUN_EXTRACTION_ACTION) return
+  post(nextId++, request.job, sendResponse)
+  // Keep the channel open for the asynchronous response
+  return true
+})
+
+function OffscreenPage() {
+  return null
+}
+
+export default OffscreenPage
@@ -0,0 +1,233 @@
+export interface WellKnownPath {
+  url: string
+  // The file the path was listed in, e.g. `robots.txt`
+  source: string
+  // Absolute URL of that file
+  foundAt: string
+  line?: number
+  tags?: string[]
+}
+
+const MAX_SITEMAPS = 25
+const MAX_SITEMAP_URLS = 2000
+
+// JSON documents under /.well-known/ whose string values are often endpoint URLs
+const WELL_KNOWN_JSON_DOCUMENTS = [
+  '/.well-known/openid-configuration',
+  '/.well-known/oauth-authorization-server',
+  '/.well-known/apple-app-site-association',
+  '/apple-app-site-association'
+]
+
+// Well-known locations that are worth reporting whenever they exist
+const WELL_KNOWN_LOCATIONS = [
+  '/.well-known/change-password',
+  '/.well-known/assetlinks.json',
+  '/.well-known/host-meta',
+  '/.well-known/webfinger',
+  '/.well-known/mta-sts.txt'
+]
+
+const fetchFile = async (url: string, accept: string): Promise<Response | null> => {
+  try {
+    const response = await fetch(url, {
+      method: 'GET',
+      mode: 'cors',
+      headers: {
+        'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36',
+        'Accept': accept
+      }
+    })
+    return response.ok ? response : null
+  } catch (error) {
+    console.warn(`Failed to fetch ${url}`, error)
+    return null
+  }
+}
+
+// Sitemaps are often served as raw `.xml.gz` without a Content-Encoding header
+const readMaybeGzipped = async (response: Response): Promise<string> => {
+  const bytes = new Uint8Array(await response.arrayBuffer())
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) {
+    const stream = new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))
+    return await new Response(stream).text()
+  }
+  return new TextDecoder().decode(bytes)
+}
+
+// Catch-all routes answer every path with the app shell; those are not the file we asked for
+const looksLikeHtml = (text: string): boolean => /^\s*(<!doctype html|<html)/i.test(text)
+
+const parseRobotsTxt = (text: string, robotsUrl: string): { paths: WellKnownPath[], sitemaps: string[] } => {
+  const paths: WellKnownPath[] = []
+  const sitemaps: string[] = []
+  const lines = text.split(/\r?\n/)
+
+  lines.forEach((raw, index) => {
+    const line = raw.replace(/#.*$/, '').trim()
+    const match = line.match(/^(allow|disallow|sitemap)\s*:\s*(\S+)/i)
+    if (!match) return
+
+    const directive = match[1].toLowerCase()
+    const value = match[2]
+    if (directive === 'sitemap') {
+      try {
+        sitemaps.push(new URL(value, robotsUrl).href)
+      } catch {
+        // Skip sitemap lines that are not URLs, e.g. `Sitemap: http://[`
+      }
+      return
+    }
+
+    // `$` anchors the end of a rule and is not part of the path
+    const path = value.replace(/\$$/, '')
+    if (!path.startsWith('/') || path === '/') return
+    paths.push({
+      url: path,
+      source: 'robots.txt',
+      foundAt: robotsUrl,
+      line: index + 1,
+      tags: [directive === 'disallow' ? 'disallowed' : 'allowed']
+    })
+  })
+
+  return { paths, sitemaps }
+}
+
+const extractLocs = (xml: string, container: 'sitemap' | 'url'): string[] => {
+  const pattern = new RegExp(`<${container}\\b[^>]*>[\\s\\S]*?<loc>\\s*(?:<!\\[CDATA\\[)?([^<\\]]+?)(?:\\]\\]>)?\\s*</loc>`, 'gi')
+  return Array.from(xml.matchAll(pattern), match => match[1].replace(/&amp;/g, '&').trim())
+}
+
+/**
+ * Walk sitemaps breadth-first, following nested sitemap indexes and
+ * decompressing gzipped files, until the sitemap or URL limit is reached.
+ */
+const crawlSitemaps = async (initial: string[]): Promise<WellKnownPath[]> => {
+  const paths: WellKnownPath[] = []
+  const queue = [...initial]
+  const seen = new Set<string>()
+
+  while (queue.length > 0 && seen.size < MAX_SITEMAPS && paths.length < MAX_SITEMAP_URLS) {
+    const sitemapUrl = queue.shift()
+    if (seen.has(sitemapUrl)) continue
+    seen.add(sitemapUrl)
+
+    const response = await fetchFile(sitemapUrl, 'application/xml, text/xml, application/gzip, */*')
+    if (!response) continue
+
+    let xml: string
+    try {
+      xml = await readMaybeGzipped(response)
+    } catch (error) {
+      console.warn(`Failed to read sitemap: ${sitemapUrl}`, error)
+      continue
+    }
+    if (looksLikeHtml(xml)) continue
+
+    const source = sitemapUrl.split('/').pop() || 'sitemap.xml'
+    if (/<sitemapindex\b/i.test(xml)) {
+      queue.push(...extractLocs(xml, 'sitemap'))
+    } else {
+      for (const loc of extractLocs(xml, 'url').slice(0, MAX_SITEMAP_URLS - paths.length)) {
+        paths.push({ url: loc, source, foundAt: sitemapUrl, tags: ['sitemap'] })
+      }
+    }
+  }
+
+  return paths
+}
+
+const parseSecurityTxt = (text: string, fileUrl: string): WellKnownPath[] => {
+  if (!/^\s*contact\s*:/im.test(text)) return []
+  const lines = text.split(/\r?\n/)
+  const paths: WellKnownPath[] = []
+
+  lines.forEach((line, index) => {
+    const match = line.match(/^\s*(contact|policy|hiring|acknowledg(?:e)?ments|canonical|encryption|csaf)\s*:\s*(https?:\/\/\S+)/i)
+    if (match) {
+      paths.push({ url: match[2], source: 'security.txt', foundAt: fileUrl, line: index + 1 })
+    }
+  })
+  return paths
+}
+
+// Collect URL-like strings (and app-association path rules) from a JSON document
+const collectJsonUrls = (value: unknown, key = ''): string[] => {
+  if (typeof value === 'string') {
+    if (/^https?:\/\//i.test(value)) return [value]
+    if (key === 'paths' || key === '/') return value.startsWith('/') ? [value] : []
+    return []
+  }
+  if (Array.isArray(value)) return value.flatMap(item => collectJsonUrls(item, key))
+  if (value && typeof value === 'object') {
+    return Object.entries(value).flatMap(([k, v]) => collectJsonUrls(v, k))
+  }
+  return []
+}
+
+/**
+ * Fetch the files a site publishes to describe its own paths - robots.txt,
+ * sitemaps, security.txt and the JSON documents under /.well-known/ - and
+ * return every path they list.
+ */
+export const discoverWellKnownPaths = async (pageUrl: string): Promise<WellKnownPath[]> => {
+  const origin = new URL(pageUrl).origin
+  const paths: WellKnownPath[] = []
+  const sitemaps = [`${origin}/sitemap.xml`, `${origin}/sitemap_index.xml`]
+
+  const robotsUrl = `${origin}/robots.txt`
+  const robots = await fetchFile(robotsUrl, 'text/plain, */*')
+  if (robots) {
+    const text = await robots.text()
+    if (!looksLikeHtml(text)) {
+      const parsed = parseRobotsTxt(text, robotsUrl)
+      paths.push(...parsed.paths)
+      sitemaps.unshift(...parsed.sitemaps)
+    }
+  }
+
+  paths.push(...await crawlSitemaps(sitemaps))
+
+  for (const location of ['/.well-known/security.txt', '/security.txt']) {
+    const fileUrl = `${origin}${location}`
+    const response = await fetchFile(fileUrl, 'text/plain, */*')
+    if (!response) continue
+    const found = parseSecurityTxt(await response.text(), fileUrl)
+    if (found.length > 0) {
+      paths.push(...found)
+      break
+    }
+  }
+
+  for (const location of WELL_KNOWN_JSON_DOCUMENTS) {
+    const fileUrl = `${origin}${location}`
+    const response = await fetchFile(fileUrl, 'application/json, */*')
+    if (!response) continue
+    try {
+      const document = JSON.parse(await response.text())
+      const source = location.replace(/^\/(\.well-known\/)?/, '')
+      paths.push({ url: location, source, foundAt: fileUrl, tags: ['well-known'] })
+      for (const url of Array.from(new Set(collectJsonUrls(document)))) {
+        paths.push({ url, source, foundAt: fileUrl })
+      }
+    } catch {
+      // Not JSON - most likely a catch-all page
+    }
+  }
+
+  for (const location of WELL_KNOWN_LOCATIONS) {
+    const fileUrl = `${origin}${location}`
+    const response = await fetchFile(fileUrl, '*/*')
+    if (!response) continue
+    const source = location.replace(/^\/\.well-known\//, '')
+    // change-password and friends redirect to the real page, which is the interesting part
+    if (response.redirected) {
+      paths.push({ url: response.url, source, foundAt: fileUrl, tags: ['well-known'] })
+    } else if (!looksLikeHtml(await response.text())) {
+      paths.push({ url: location, source, foundAt: fileUrl, tags: ['well-known'] })
+    }
+  }
+
+  return paths
+}
